@@ -0,0 +1,127 @@
+import { getDocumentLength, getNotebookLength } from './documentSize';
+import { AutoSaveDocument, isNotebook } from './notebooks';
+
+// Number of recent inter-keystroke intervals kept per document
+const MAX_SAMPLES = 30;
+// Fewer samples than this and the configured saveDelay is used instead
+const MIN_SAMPLES = 5;
+// Gaps longer than this are treated as a new typing session rather than a keystroke interval
+const SESSION_GAP_MS = 5000;
+// The chosen delay is this multiple of the 90th percentile interval
+const PERCENTILE_MULTIPLIER = 1.5;
+// Documents larger than this (in characters) get a proportionally longer delay
+const LARGE_DOCUMENT_CHARS = 100 * 1024;
+
+export interface AdaptiveDelayBounds {
+    minDelay: number;
+    maxDelay: number;
+    fallbackDelay: number;
+}
+
+export interface DelayDecision {
+    delay: number;
+    reason: string;
+    decidedAt: number;
+}
+
+interface DocumentCadence {
+    lastChangeAt: number;
+    intervals: number[];
+    lastDecision?: DelayDecision;
+}
+
+/**
+ * Learns each document's typing cadence from the intervals between its changes and
+ * picks a debounce delay that is unlikely to fire in the middle of a burst.
+ */
+export class CadenceTracker {
+    private cadences: Map<string, DocumentCadence> = new Map();
+
+    /**
+     * Records a change to the document and the interval since its previous change.
+     */
+    recordChange(uri: string, now: number = Date.now()) {
+        const cadence = this.cadences.get(uri);
+        if (!cadence) {
+            this.cadences.set(uri, { lastChangeAt: now, intervals: [] });
+            return;
+        }
+
+        const interval = now - cadence.lastChangeAt;
+        cadence.lastChangeAt = now;
+
+        if (interval > 0 && interval <= SESSION_GAP_MS) {
+            cadence.intervals.push(interval);
+            if (cadence.intervals.length > MAX_SAMPLES) {
+                cadence.intervals.shift();
+            }
+        }
+    }
+
+    /**
+     * Picks a delay for the document within the given bounds, backing off for very
+     * large documents and notebooks. The decision is remembered for the statistics output.
+     */
+    computeDelay(uri: string, document: AutoSaveDocument, bounds: AdaptiveDelayBounds): DelayDecision {
+        const cadence = this.cadences.get(uri);
+        const samples = cadence?.intervals ?? [];
+        const reasons: string[] = [];
+        let delay: number;
+
+        if (samples.length < MIN_SAMPLES) {
+            delay = bounds.fallbackDelay;
+            reasons.push(`${samples.length}/${MIN_SAMPLES} samples, using saveDelay`);
+        } else {
+            const p90 = percentile(samples, 0.9);
+            delay = p90 * PERCENTILE_MULTIPLIER;
+            reasons.push(`p90 interval ${Math.round(p90)}ms x${PERCENTILE_MULTIPLIER} (${samples.length} samples)`);
+        }
+
+        const documentChars = isNotebook(document) ? getNotebookLength(document) : getDocumentLength(document);
+        if (documentChars > LARGE_DOCUMENT_CHARS) {
+            const factor = 1 + Math.log2(documentChars / LARGE_DOCUMENT_CHARS);
+            delay *= factor;
+            reasons.push(`x${factor.toFixed(1)} for ${Math.round(documentChars / 1024)}K chars`);
+        }
+
+        const clamped = Math.round(Math.max(bounds.minDelay, Math.min(bounds.maxDelay, delay)));
+        if (clamped !== Math.round(delay)) {
+            reasons.push(`clamped to ${bounds.minDelay}-${bounds.maxDelay}ms`);
+        }
+
+        const decision: DelayDecision = { delay: clamped, reason: reasons.join(', '), decidedAt: Date.now() };
+        if (cadence) {
+            cadence.lastDecision = decision;
+        }
+        return decision;
+    }
+
+    /**
+     * Returns the most recent decisions, newest first.
+     */
+    getRecentDecisions(limit: number): { uri: string; decision: DelayDecision }[] {
+        const decisions: { uri: string; decision: DelayDecision }[] = [];
+        this.cadences.forEach((cadence, uri) => {
+            if (cadence.lastDecision) {
+                decisions.push({ uri, decision: cadence.lastDecision });
+            }
+        });
+        return decisions
+            .sort((a, b) => b.decision.decidedAt - a.decision.decidedAt)
+            .slice(0, limit);
+    }
+
+    forget(uri: string) {
+        this.cadences.delete(uri);
+    }
+
+    clear() {
+        this.cadences.clear();
+    }
+}
+
+function percentile(values: number[], fraction: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.floor(fraction * sorted.length));
+    return sorted[index];
+}
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+import { SuspensionManager } from './suspension';
+
+// What caused a save: 'immediate' is saveOnEveryChange, 'manual' is the saveNow command,
+// 'api' is a flush requested by another extension
+export type SaveTrigger = 'debounce' | 'immediate' | 'focusChange' | 'windowBlur' | 'interval' | 'idle' | 'manual' | 'retry' | 'api';
+
+// Longest a guard may take before its answer is ignored and the save goes ahead
+const GUARD_TIMEOUT_MS = 1000;
+// Upper bound for a single delay requested by a guard
+const MAX_GUARD_DELAY_MS = 60000;
+
+export interface PauseToken {
+    readonly id: number;
+    readonly reason: string;
+}
+
+export interface PendingSave {
+    uri: vscode.Uri;
+    changeCount: number;
+    // When the debounced save fires; undefined while held because of errors
+    dueAt?: number;
+    held: boolean;
+}
+
+export interface AutoSaveEvent {
+    // A notebook is saved as a whole, so its events carry the notebook rather than a cell
+    document: vscode.TextDocument | vscode.NotebookDocument;
+    trigger: SaveTrigger;
+}
+
+export interface DidAutoSaveEvent extends AutoSaveEvent {
+    saveTimeMs: number;
+}
+
+export interface DidFailAutoSaveEvent extends AutoSaveEvent {
+    saveTimeMs: number;
+    error: string;
+}
+
+/**
+ * A guard's answer: undefined or `{ action: 'allow' }` lets the save go ahead, 'veto'
+ * skips it (the document stays dirty), 'delay' tries again after `delayMs`.
+ */
+export type SaveGuardDecision =
+    | { action: 'allow' }
+    | { action: 'veto'; reason?: string }
+    | { action: 'delay'; delayMs: number; reason?: string };
+
+type DelayDecision = Extract<SaveGuardDecision, { action: 'delay' }>;
+
+export type SaveGuard = (event: AutoSaveEvent) => SaveGuardDecision | undefined | Thenable<SaveGuardDecision | undefined>;
+
+/**
+ * API returned from `activate`, available to other extensions through
+ * `vscode.extensions.getExtension('PacficientLabs.quick-auto-save')?.exports`.
+ */
+export interface QuickAutoSaveApi {
+    readonly apiVersion: 1;
+    /**
+     * Suspends automatic saves until every token handed out is passed to `resume`.
+     * Explicit saves (Save All Files Now, `flush`) still go through.
+     */
+    pause(reason: string): PauseToken;
+    resume(token: PauseToken): void;
+    readonly isPaused: boolean;
+    /**
+     * Saves the pending document for `uri`, or every pending document, right away.
+     * Resolves to the number of documents saved.
+     */
+    flush(uri?: vscode.Uri): Promise<number>;
+    getPending(): PendingSave[];
+    readonly onWillAutoSave: vscode.Event<AutoSaveEvent>;
+    readonly onDidAutoSave: vscode.Event<DidAutoSaveEvent>;
+    readonly onDidFailAutoSave: vscode.Event<DidFailAutoSaveEvent>;
+    /**
+     * Registers a guard consulted before every save except Save All Files Now. Guards
+     * that throw or don't answer within a second are ignored.
+     */
+    registerSaveGuard(guard: SaveGuard): vscode.Disposable;
+}
+
+export interface ExtensionApiHost {
+    flush(uri?: vscode.Uri): Promise<number>;
+    getPending(): PendingSave[];
+}
+
+/**
+ * Implements the public API and gives the rest of the extension access to pauses,
+ * guards and the save event emitters.
+ */
+export class ExtensionApi implements QuickAutoSaveApi, vscode.Disposable {
+    readonly apiVersion = 1;
+
+    private guards: Set<SaveGuard> = new Set();
+    private willSaveEmitter = new vscode.EventEmitter<AutoSaveEvent>();
+    private didSaveEmitter = new vscode.EventEmitter<DidAutoSaveEvent>();
+    private didFailEmitter = new vscode.EventEmitter<DidFailAutoSaveEvent>();
+
+    readonly onWillAutoSave = this.willSaveEmitter.event;
+    readonly onDidAutoSave = this.didSaveEmitter.event;
+    readonly onDidFailAutoSave = this.didFailEmitter.event;
+
+    constructor(private host: ExtensionApiHost, private suspensions: SuspensionManager, private logger: Logger) {}
+
+    pause(reason: string): PauseToken {
+        const suspension = this.suspensions.suspend('api', String(reason));
+        return { id: suspension.id, reason: suspension.reason };
+    }
+
+    resume(token: PauseToken) {
+        if (token) {
+            this.suspensions.release(token.id);
+        }
+    }
+
+    // True while auto-save is suspended for any reason, not only through `pause`
+    get isPaused(): boolean {
+        return this.suspensions.isSuspended;
+    }
+
+    flush(uri?: vscode.Uri): Promise<number> {
+        return this.host.flush(uri);
+    }
+
+    getPending(): PendingSave[] {
+        return this.host.getPending();
+    }
+
+    registerSaveGuard(guard: SaveGuard): vscode.Disposable {
+        this.guards.add(guard);
+        return new vscode.Disposable(() => this.guards.delete(guard));
+    }
+
+    /**
+     * Asks every guard about the save. The first veto wins; otherwise the longest
+     * requested delay is returned.
+     */
+    async checkGuards(event: AutoSaveEvent): Promise<SaveGuardDecision> {
+        if (this.guards.size === 0) {
+            return { action: 'allow' };
+        }
+
+        const uri = event.document.uri.toString();
+        const decisions = await Promise.all(Array.from(this.guards).map(guard => this.runGuard(guard, event)));
+
+        const veto = decisions.find(decision => decision.action === 'veto');
+        if (veto) {
+            return veto;
+        }
+
+        const delays = decisions.filter((decision): decision is DelayDecision => decision.action === 'delay');
+        if (delays.length > 0) {
+            const longest = delays.reduce((a, b) => b.delayMs > a.delayMs ? b : a);
+            return { ...longest, delayMs: Math.min(MAX_GUARD_DELAY_MS, longest.delayMs) };
+        }
+
+        this.logger.trace('Save guards allowed save', { uri, guards: this.guards.size });
+        return { action: 'allow' };
+    }
+
+    fireWillSave(event: AutoSaveEvent) {
+        this.willSaveEmitter.fire(event);
+    }
+
+    fireDidSave(event: DidAutoSaveEvent) {
+        this.didSaveEmitter.fire(event);
+    }
+
+    fireDidFail(event: DidFailAutoSaveEvent) {
+        this.didFailEmitter.fire(event);
+    }
+
+    dispose() {
+        this.guards.clear();
+        this.willSaveEmitter.dispose();
+        this.didSaveEmitter.dispose();
+        this.didFailEmitter.dispose();
+    }
+
+    private async runGuard(guard: SaveGuard, event: AutoSaveEvent): Promise<SaveGuardDecision> {
+        const uri = event.document.uri.toString();
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<'timeout'>(resolve => {
+            timer = setTimeout(() => resolve('timeout'), GUARD_TIMEOUT_MS);
+        });
+
+        try {
+            const result = await Promise.race([Promise.resolve(guard(event)), timeout]);
+            if (result === 'timeout') {
+                this.logger.warn('Save guard timed out, ignoring it', { uri, timeoutMs: GUARD_TIMEOUT_MS });
+                return { action: 'allow' };
+            }
+            return normalizeDecision(result);
+        } catch (error) {
+            this.logger.error('Save guard failed, ignoring it', error instanceof Error ? error : new Error(String(error)), { uri });
+            return { action: 'allow' };
+        } finally {
+            if (timer) {
+                clearTimeout(timer);
+            }
+        }
+    }
+}
+
+function normalizeDecision(result: SaveGuardDecision | undefined): SaveGuardDecision {
+    if (!result || typeof result !== 'object') {
+        return { action: 'allow' };
+    }
+    if (result.action === 'veto') {
+        return { action: 'veto', reason: result.reason };
+    }
+    if (result.action === 'delay' && typeof result.delayMs === 'number' && result.delayMs > 0) {
+        return { action: 'delay', delayMs: result.delayMs, reason: result.reason };
+    }
+    return { action: 'allow' };
+}
@@ -0,0 +1,357 @@
+import * as vscode from 'vscode';
+import { HistorySummary, LATENCY_BUCKETS_MS } from './statsHistory';
+import { Logger } from './logger';
+
+// Minimum time between two pushes of fresh data to the webview
+const REFRESH_THROTTLE_MS = 250;
+
+export interface DashboardPendingSave {
+    uri: string;
+    fileName: string;
+    createdAt: number;
+    changeCount: number;
+    delay: number;
+    held: boolean;
+}
+
+export interface DashboardDelayDecision {
+    fileName: string;
+    delay: number;
+    reason: string;
+}
+
+export interface DashboardData {
+    session: {
+        totalSaves: number;
+        successfulSaves: number;
+        failedSaves: number;
+        lastSaveTime: number;
+        sessionStartTime: number;
+        savesByTrigger: Record<string, number>;
+    };
+    history: HistorySummary;
+    pending: DashboardPendingSave[];
+    // Latest adaptive delay decisions, newest first
+    adaptiveDelays: DashboardDelayDecision[];
+}
+
+export interface DashboardDataSource {
+    getData(): DashboardData;
+    cancelPendingSave(uri: string): void;
+}
+
+type DashboardMessage =
+    | { type: 'ready' }
+    | { type: 'openFile'; uri: string }
+    | { type: 'cancelSave'; uri: string };
+
+/**
+ * Webview showing session and historical statistics plus the pending save queue.
+ * Only one panel exists at a time; `refresh` is cheap to call on every save event.
+ */
+export class StatsDashboard implements vscode.Disposable {
+    private static readonly viewType = 'quickAutoSave.dashboard';
+    private panel: vscode.WebviewPanel | undefined;
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    constructor(private dataSource: DashboardDataSource, private logger: Logger) {}
+
+    show() {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            StatsDashboard.viewType,
+            'Quick Auto-Save Dashboard',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: false }
+        );
+        this.panel.webview.html = getHtml(getNonce(), this.panel.webview.cspSource);
+
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+            if (this.refreshTimer) {
+                clearTimeout(this.refreshTimer);
+                this.refreshTimer = undefined;
+            }
+        });
+        this.panel.onDidChangeViewState(() => this.refresh());
+        this.panel.webview.onDidReceiveMessage((message: DashboardMessage) => this.handleMessage(message));
+
+        this.logger.debug('Dashboard opened');
+    }
+
+    /**
+     * Sends fresh data to the dashboard if it is open, at most every REFRESH_THROTTLE_MS.
+     */
+    refresh() {
+        if (!this.panel || this.refreshTimer) {
+            return;
+        }
+
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.postUpdate();
+        }, REFRESH_THROTTLE_MS);
+    }
+
+    dispose() {
+        this.panel?.dispose();
+    }
+
+    private postUpdate() {
+        if (!this.panel || !this.panel.visible) {
+            return;
+        }
+
+        try {
+            this.panel.webview.postMessage({
+                type: 'update',
+                data: this.dataSource.getData(),
+                latencyBucketsMs: LATENCY_BUCKETS_MS,
+                now: Date.now()
+            });
+        } catch (error) {
+            this.logger.error('Failed to update dashboard', error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    private async handleMessage(message: DashboardMessage) {
+        try {
+            switch (message.type) {
+                case 'ready':
+                    this.postUpdate();
+                    break;
+                case 'openFile':
+                    await vscode.window.showTextDocument(vscode.Uri.parse(message.uri), { preview: false });
+                    break;
+                case 'cancelSave':
+                    this.dataSource.cancelPendingSave(message.uri);
+                    this.postUpdate();
+                    break;
+            }
+        } catch (error) {
+            this.logger.error('Error handling dashboard message', error instanceof Error ? error : new Error(String(error)), { message });
+        }
+    }
+}
+
+function getNonce(): string {
+    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+    }
+    return nonce;
+}
+
+function getHtml(nonce: string, cspSource: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Quick Auto-Save Dashboard</title>
+<style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    h2 { font-size: 1.1em; margin: 20px 0 8px; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; }
+    .cards { display: flex; flex-wrap: wrap; gap: 12px; }
+    .card { background: var(--vscode-editorWidget-background); border: 1px solid var(--vscode-panel-border); padding: 8px 12px; min-width: 110px; }
+    .card .value { font-size: 1.6em; font-weight: bold; }
+    .card .label { opacity: 0.8; }
+    .bars { display: flex; align-items: flex-end; gap: 4px; height: 120px; }
+    .bar { flex: 1; display: flex; flex-direction: column; justify-content: flex-end; min-width: 8px; }
+    .bar .ok { background: var(--vscode-charts-green, #3c3); }
+    .bar .fail { background: var(--vscode-charts-red, #c33); }
+    .bar .latency { background: var(--vscode-charts-blue, #39c); }
+    .axis { display: flex; gap: 4px; font-size: 0.8em; opacity: 0.7; }
+    .axis span { flex: 1; min-width: 8px; text-align: center; overflow: hidden; white-space: nowrap; }
+    .ratio { display: flex; height: 14px; width: 100%; background: var(--vscode-editorWidget-background); }
+    .ratio .ok { background: var(--vscode-charts-green, #3c3); }
+    .ratio .fail { background: var(--vscode-charts-red, #c33); }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    a { color: var(--vscode-textLink-foreground); cursor: pointer; }
+    .muted { opacity: 0.7; }
+</style>
+</head>
+<body>
+<h2>Session</h2>
+<div class="cards" id="session"></div>
+
+<h2>Success / Failure</h2>
+<div class="ratio" id="ratio"></div>
+<p class="muted" id="ratio-label"></p>
+
+<h2>Saves Over Time</h2>
+<div class="bars" id="days"></div>
+<div class="axis" id="days-axis"></div>
+
+<h2>Save Latency</h2>
+<div class="bars" id="latency"></div>
+<div class="axis" id="latency-axis"></div>
+<p class="muted" id="latency-label"></p>
+
+<h2>Most Saved Files</h2>
+<table><thead><tr><th>File</th><th>Saves</th><th>Failures</th><th></th></tr></thead><tbody id="files"></tbody></table>
+
+<h2>Pending Saves</h2>
+<table><thead><tr><th>File</th><th>Age</th><th>Changes</th><th>Delay</th><th>State</th><th></th></tr></thead><tbody id="pending"></tbody></table>
+
+<h2>Adaptive Delays</h2>
+<table><thead><tr><th>File</th><th>Delay</th><th>Reason</th></tr></thead><tbody id="adaptive"></tbody></table>
+
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    let latest;
+    let clockOffset = 0;
+
+    function element(tag, text, className) {
+        const node = document.createElement(tag);
+        if (text !== undefined) node.textContent = text;
+        if (className) node.className = className;
+        return node;
+    }
+
+    function link(text, message) {
+        const node = element('a', text);
+        node.addEventListener('click', () => vscode.postMessage(message));
+        return node;
+    }
+
+    function row(cells) {
+        const tr = element('tr');
+        cells.forEach(cell => {
+            const td = element('td');
+            if (cell instanceof Node) td.appendChild(cell); else td.textContent = String(cell);
+            tr.appendChild(td);
+        });
+        return tr;
+    }
+
+    function renderBars(containerId, axisId, values, labels, className, secondary) {
+        const container = document.getElementById(containerId);
+        const axis = document.getElementById(axisId);
+        container.replaceChildren();
+        axis.replaceChildren();
+        const max = Math.max(1, ...values.map((value, i) => value + (secondary ? secondary[i] : 0)));
+        values.forEach((value, i) => {
+            const bar = element('div', undefined, 'bar');
+            bar.title = labels[i] + ': ' + value + (secondary ? ' saved, ' + secondary[i] + ' failed' : '');
+            if (secondary) {
+                const fail = element('div', undefined, 'fail');
+                fail.style.height = (secondary[i] / max * 100) + 'px';
+                bar.appendChild(fail);
+            }
+            const ok = element('div', undefined, className);
+            ok.style.height = (value / max * 100) + 'px';
+            bar.appendChild(ok);
+            container.appendChild(bar);
+            axis.appendChild(element('span', labels[i]));
+        });
+    }
+
+    function formatAge(ms) {
+        return ms < 1000 ? ms + 'ms' : (ms / 1000).toFixed(1) + 's';
+    }
+
+    function renderPending() {
+        if (!latest) return;
+        const now = Date.now() - clockOffset;
+        const body = document.getElementById('pending');
+        body.replaceChildren();
+        if (latest.data.pending.length === 0) {
+            body.appendChild(row([element('span', 'No pending saves', 'muted'), '', '', '', '', '']));
+            return;
+        }
+        latest.data.pending.forEach(item => {
+            const actions = element('span');
+            actions.appendChild(link('Open', { type: 'openFile', uri: item.uri }));
+            actions.appendChild(document.createTextNode(' · '));
+            actions.appendChild(link('Cancel', { type: 'cancelSave', uri: item.uri }));
+            body.appendChild(row([item.fileName, formatAge(now - item.createdAt), item.changeCount, item.delay + 'ms', item.held ? 'held' : 'waiting', actions]));
+        });
+    }
+
+    function render() {
+        const { session, history } = latest.data;
+        const minutes = Math.max(0, Math.round((Date.now() - clockOffset - session.sessionStartTime) / 60000));
+
+        const cards = document.getElementById('session');
+        cards.replaceChildren();
+        [
+            ['Saves', session.successfulSaves],
+            ['Failed', session.failedSaves],
+            ['Minutes', minutes],
+            ['Per Minute', minutes > 0 ? (session.totalSaves / minutes).toFixed(1) : '0'],
+            ['Last Save', session.lastSaveTime > 0 ? new Date(session.lastSaveTime).toLocaleTimeString() : 'Never'],
+            ['Pending', latest.data.pending.length],
+            ...Object.entries(session.savesByTrigger).filter(([, count]) => count > 0)
+        ].forEach(([label, value]) => {
+            const card = element('div', undefined, 'card');
+            card.appendChild(element('div', String(value), 'value'));
+            card.appendChild(element('div', label, 'label'));
+            cards.appendChild(card);
+        });
+
+        const total = history.saves + history.failures;
+        const ratio = document.getElementById('ratio');
+        ratio.replaceChildren();
+        const ok = element('div', undefined, 'ok');
+        ok.style.width = (total > 0 ? history.saves / total * 100 : 0) + '%';
+        const fail = element('div', undefined, 'fail');
+        fail.style.width = (total > 0 ? history.failures / total * 100 : 0) + '%';
+        ratio.append(ok, fail);
+        document.getElementById('ratio-label').textContent = total > 0
+            ? history.saves + ' saved, ' + history.failures + ' failed (' + (history.saves / total * 100).toFixed(1) + '% success, last ' + history.days + ' days)'
+            : 'No saves recorded yet';
+
+        renderBars('days', 'days-axis',
+            history.savesByDay.map(day => day.saves),
+            history.savesByDay.map(day => day.day.slice(5)),
+            'ok',
+            history.savesByDay.map(day => day.failures));
+
+        renderBars('latency', 'latency-axis',
+            history.latencyHistogram,
+            latest.latencyBucketsMs.map(bound => '≤' + bound).concat(['>' + latest.latencyBucketsMs[latest.latencyBucketsMs.length - 1]]),
+            'latency');
+        document.getElementById('latency-label').textContent =
+            'p50 ≤' + history.latency.p50 + 'ms · p90 ≤' + history.latency.p90 + 'ms · p99 ≤' + history.latency.p99 + 'ms';
+
+        const files = document.getElementById('files');
+        files.replaceChildren();
+        history.topFiles.forEach(file => {
+            files.appendChild(row([file.file, file.saves, file.failures, file.uri ? link('Open', { type: 'openFile', uri: file.uri }) : '']));
+        });
+
+        const adaptive = document.getElementById('adaptive');
+        adaptive.replaceChildren();
+        if (latest.data.adaptiveDelays.length === 0) {
+            adaptive.appendChild(row([element('span', 'No adaptive delays yet', 'muted'), '', '']));
+        }
+        latest.data.adaptiveDelays.forEach(decision => {
+            adaptive.appendChild(row([decision.fileName, decision.delay + 'ms', decision.reason]));
+        });
+
+        renderPending();
+    }
+
+    window.addEventListener('message', event => {
+        if (event.data.type === 'update') {
+            latest = event.data;
+            clockOffset = Date.now() - event.data.now;
+            render();
+        }
+    });
+
+    // Keep pending save ages ticking between updates
+    setInterval(renderPending, 500);
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { Logger } from './logger';
+
+export const DISK_SCHEME = 'quick-auto-save-disk';
+
+interface DiskFingerprint {
+    mtime: number;
+    size: number;
+    hash: string;
+}
+
+/**
+ * Remembers what each open file looked like on disk when it was loaded or last
+ * saved, so an auto-save can detect that something else changed the file in the
+ * meantime. Documents with a detected conflict are paused until it is resolved.
+ *
+ * Also serves the current on-disk content under DISK_SCHEME for diffing.
+ */
+export class DiskStateTracker implements vscode.Disposable, vscode.TextDocumentContentProvider {
+    private fingerprints: Map<string, DiskFingerprint> = new Map();
+    private paused: Set<string> = new Set();
+    // Recordings in progress, awaited by checks so a save never races its own recording
+    private pending: Map<string, Promise<void>> = new Map();
+    private registration: vscode.Disposable;
+
+    constructor(private logger: Logger) {
+        this.registration = vscode.workspace.registerTextDocumentContentProvider(DISK_SCHEME, this);
+    }
+
+    /**
+     * Records the file's current on-disk state as the expected one.
+     */
+    record(uri: vscode.Uri): Promise<void> {
+        if (!isTrackable(uri)) {
+            return Promise.resolve();
+        }
+
+        const key = uri.toString();
+        const recording = readFingerprint(uri).then(fingerprint => {
+            this.fingerprints.set(key, fingerprint);
+        }, error => {
+            // The file may not exist yet or the provider may not support stat
+            this.fingerprints.delete(key);
+            this.logger.debug('Could not record disk state', { uri: key, error: String(error) });
+        }).finally(() => {
+            if (this.pending.get(key) === recording) {
+                this.pending.delete(key);
+            }
+        });
+
+        this.pending.set(key, recording);
+        return recording;
+    }
+
+    /**
+     * Returns true when the file on disk no longer matches the recorded state. A
+     * changed mtime or size alone is not a conflict if the content hash is the same.
+     */
+    async hasExternalChange(uri: vscode.Uri): Promise<boolean> {
+        await this.pending.get(uri.toString());
+
+        const expected = this.fingerprints.get(uri.toString());
+        if (!expected || !isTrackable(uri)) {
+            return false;
+        }
+
+        let stat: vscode.FileStat;
+        try {
+            stat = await vscode.workspace.fs.stat(uri);
+        } catch (error) {
+            // A deleted file isn't a conflict; saving recreates it
+            return false;
+        }
+
+        if (stat.mtime === expected.mtime && stat.size === expected.size) {
+            return false;
+        }
+
+        const actual = await readFingerprint(uri);
+        if (actual.hash === expected.hash) {
+            this.fingerprints.set(uri.toString(), actual);
+            return false;
+        }
+
+        this.logger.warn('File changed on disk since it was loaded or last saved', {
+            uri: uri.toString(),
+            expected: { mtime: expected.mtime, size: expected.size },
+            actual: { mtime: actual.mtime, size: actual.size }
+        });
+        return true;
+    }
+
+    isPaused(uri: string): boolean {
+        return this.paused.has(uri);
+    }
+
+    pause(uri: string) {
+        this.paused.add(uri);
+    }
+
+    resume(uri: string) {
+        this.paused.delete(uri);
+    }
+
+    forget(uri: string) {
+        this.fingerprints.delete(uri);
+        this.pending.delete(uri);
+        this.paused.delete(uri);
+    }
+
+    getDiskUri(uri: vscode.Uri): vscode.Uri {
+        return uri.with({ scheme: DISK_SCHEME, query: uri.scheme });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const content = await vscode.workspace.fs.readFile(uri.with({ scheme: uri.query || 'file', query: '' }));
+        return Buffer.from(content).toString('utf8');
+    }
+
+    dispose() {
+        this.registration.dispose();
+        this.fingerprints.clear();
+        this.paused.clear();
+        this.pending.clear();
+    }
+}
+
+// Only URIs backed by a file system provider can be stat'ed
+function isTrackable(uri: vscode.Uri): boolean {
+    return uri.scheme !== DISK_SCHEME && vscode.workspace.fs.isWritableFileSystem(uri.scheme) !== undefined;
+}
+
+async function readFingerprint(uri: vscode.Uri): Promise<DiskFingerprint> {
+    const stat = await vscode.workspace.fs.stat(uri);
+    const content = await vscode.workspace.fs.readFile(uri);
+    return {
+        mtime: stat.mtime,
+        size: stat.size,
+        hash: crypto.createHash('sha256').update(content).digest('hex')
+    };
+}
@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+
+export interface SizeCheck {
+    exceeds: boolean;
+    // Exact when the text had to be measured, otherwise a bound derived from the length
+    sizeKB: number;
+    exact: boolean;
+}
+
+/**
+ * Returns the document length in UTF-16 code units without copying its text.
+ */
+export function getDocumentLength(document: vscode.TextDocument): number {
+    if (document.lineCount === 0) {
+        return 0;
+    }
+    return document.offsetAt(document.lineAt(document.lineCount - 1).range.end);
+}
+
+/**
+ * Returns the length of every cell's text in UTF-16 code units, without outputs.
+ */
+export function getNotebookLength(notebook: vscode.NotebookDocument): number {
+    return notebook.getCells().reduce((total, cell) => total + getDocumentLength(cell.document), 0);
+}
+
+/**
+ * Checks the UTF-8 size of the document against a limit. Each UTF-16 code unit
+ * takes 1 to 3 bytes in UTF-8, so the length alone settles the check unless it
+ * falls between those bounds; only then is the text copied and measured.
+ */
+export function checkDocumentSize(document: vscode.TextDocument, maxSizeKB: number): SizeCheck {
+    const length = getDocumentLength(document);
+    const maxBytes = maxSizeKB * 1024;
+
+    if (length > maxBytes) {
+        return { exceeds: true, sizeKB: length / 1024, exact: false };
+    }
+    if (length * 3 <= maxBytes) {
+        return { exceeds: false, sizeKB: length / 1024, exact: false };
+    }
+
+    const bytes = Buffer.byteLength(document.getText(), 'utf8');
+    return { exceeds: bytes > maxBytes, sizeKB: bytes / 1024, exact: true };
+}
+
+/**
+ * Checks the size of a notebook: the text of every cell plus its output data, with
+ * the same bounds as `checkDocumentSize` for the text.
+ */
+export function checkNotebookSize(notebook: vscode.NotebookDocument, maxSizeKB: number): SizeCheck {
+    const cells = notebook.getCells();
+    const outputBytes = cells.reduce((total, cell) => total + cell.outputs.reduce((sum, output) =>
+        sum + output.items.reduce((itemSum, item) => itemSum + item.data.byteLength, 0), 0), 0);
+    const length = getNotebookLength(notebook);
+    const maxBytes = maxSizeKB * 1024;
+
+    if (length + outputBytes > maxBytes) {
+        return { exceeds: true, sizeKB: (length + outputBytes) / 1024, exact: false };
+    }
+    if (length * 3 + outputBytes <= maxBytes) {
+        return { exceeds: false, sizeKB: (length + outputBytes) / 1024, exact: false };
+    }
+
+    const bytes = cells.reduce((total, cell) => total + Buffer.byteLength(cell.document.getText(), 'utf8'), outputBytes);
+    return { exceeds: bytes > maxBytes, sizeKB: bytes / 1024, exact: true };
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+
+// Every check a document goes through before it is auto-saved, in evaluation order
+export type AutoSaveCheckId =
+    | 'notNotebookCell'
+    | 'dirty'
+    | 'open'
+    | 'schemeAllowed'
+    | 'enabled'
+    | 'exception'
+    | 'notStopped'
+    | 'noExternalChange'
+    | 'profileEnabled'
+    | 'untitled'
+    | 'notExcluded'
+    | 'included'
+    | 'notIgnored'
+    | 'size'
+    | 'noConflictMarkers'
+    | 'notSuspended'
+    // The checks themselves threw
+    | 'error';
+
+// Where to go to change a check's outcome: a setting, or a command when no single setting decides it
+export type AutoSaveCheckLink = { setting: string } | { command: string; title: string };
+
+export interface AutoSaveCheck {
+    id: AutoSaveCheckId;
+    passed: boolean;
+    // What is checked, e.g. "Not excluded"
+    title: string;
+    // Why the check passed or failed, e.g. 'matches exclude rule "**/*.log"'
+    detail: string;
+    link?: AutoSaveCheckLink;
+}
+
+// Short status bar text for a document ruled out by the check
+const STATUS_LABELS: Partial<Record<AutoSaveCheckId, string>> = {
+    enabled: 'Off for folder',
+    notStopped: 'Stopped',
+    noExternalChange: 'Paused',
+    size: 'Too large',
+    noConflictMarkers: 'Conflicts',
+    notSuspended: 'Suspended'
+};
+
+/**
+ * The outcome of checking whether a document may be auto-saved. Evaluation stops
+ * at the first failed check unless every check was asked for.
+ */
+export class AutoSaveEvaluation {
+    readonly checks: AutoSaveCheck[] = [];
+
+    constructor(private runAll = false) {}
+
+    /**
+     * Records a check; returns false once the evaluation should stop.
+     */
+    record(check: AutoSaveCheck): boolean {
+        this.checks.push(check);
+        return check.passed || this.runAll;
+    }
+
+    get allowed(): boolean {
+        return this.checks.every(check => check.passed);
+    }
+
+    get failed(): AutoSaveCheck[] {
+        return this.checks.filter(check => !check.passed);
+    }
+
+    /**
+     * Fields describing the failed checks, for debug logs of skipped documents.
+     */
+    toLogFields(): { reasons: string[]; details: string[] } {
+        const failed = this.failed;
+        return { reasons: failed.map(check => check.id), details: failed.map(check => check.detail) };
+    }
+}
+
+export function getStatusLabel(check: AutoSaveCheck): string {
+    return STATUS_LABELS[check.id] ?? 'Excluded';
+}
+
+interface CheckItem extends vscode.QuickPickItem {
+    check?: AutoSaveCheck;
+}
+
+/**
+ * Lists every check with its outcome. Picking a check opens the setting (or runs
+ * the command) that decides it.
+ */
+export async function showEvaluation(document: vscode.TextDocument | vscode.NotebookDocument, evaluation: AutoSaveEvaluation) {
+    const name = document.isUntitled ? document.uri.path : vscode.workspace.asRelativePath(document.uri, true);
+    const failed = evaluation.failed;
+
+    const items: CheckItem[] = evaluation.checks.map(check => ({
+        label: `${check.passed ? '$(pass)' : '$(error)'} ${check.title}`,
+        description: check.link ? describeLink(check.link) : undefined,
+        detail: check.detail,
+        check
+    }));
+
+    const placeHolder = failed.length === 0
+        ? `${name} is auto-saved`
+        : `${name} is not auto-saved: ${failed.map(check => check.detail).join('; ')}`;
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: 'Why isn\'t this file auto-saving?',
+        placeHolder,
+        matchOnDetail: true
+    });
+
+    const link = picked?.check?.link;
+    if (!link) {
+        return;
+    }
+    if ('setting' in link) {
+        await vscode.commands.executeCommand('workbench.action.openSettings', link.setting);
+    } else {
+        await vscode.commands.executeCommand(link.command);
+    }
+}
+
+function describeLink(link: AutoSaveCheckLink): string {
+    return 'setting' in link ? `$(gear) ${link.setting}` : `$(link) ${link.title}`;
+}
@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+
+const WORKSPACE_STATE_KEY = 'quickAutoSave.disabledPaths';
+
+/**
+ * Files and folders the user turned auto-save off for, persisted per workspace.
+ * A folder exception covers everything below it.
+ */
+export class AutoSaveExceptions implements vscode.Disposable {
+    private paths: string[];
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private context: vscode.ExtensionContext, private logger: Logger) {
+        this.paths = context.workspaceState.get<string[]>(WORKSPACE_STATE_KEY, []);
+    }
+
+    /**
+     * Returns the exception covering the URI: the URI itself or one of its folders.
+     */
+    find(uri: vscode.Uri): string | undefined {
+        const key = uri.toString();
+        return this.paths.find(path => key === path || key.startsWith(path.endsWith('/') ? path : `${path}/`));
+    }
+
+    isDisabled(uri: vscode.Uri): boolean {
+        return this.find(uri) !== undefined;
+    }
+
+    has(uri: vscode.Uri): boolean {
+        return this.paths.includes(uri.toString());
+    }
+
+    async add(uri: vscode.Uri) {
+        if (this.has(uri)) {
+            return;
+        }
+        this.paths = [...this.paths, uri.toString()];
+        await this.save();
+        this.logger.info('Auto-save disabled for path', { uri: uri.toString() });
+    }
+
+    async remove(uris: string[]) {
+        const remaining = this.paths.filter(path => !uris.includes(path));
+        if (remaining.length === this.paths.length) {
+            return;
+        }
+        this.paths = remaining;
+        await this.save();
+        this.logger.info('Auto-save exceptions removed', { uris });
+    }
+
+    getAll(): vscode.Uri[] {
+        return this.paths.map(path => vscode.Uri.parse(path));
+    }
+
+    dispose() {
+        this.changeEmitter.dispose();
+    }
+
+    private async save() {
+        await this.context.workspaceState.update(WORKSPACE_STATE_KEY, this.paths);
+        this.changeEmitter.fire();
+    }
+}
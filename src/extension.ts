@@ -1,104 +1,269 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as os from 'os';
+import { QuickAutoSaveLogger } from './logger';
+import { FileFilter, FileFilterConfig } from './fileFilter';
+import { CadenceTracker } from './adaptiveDelay';
+import { ClearScope, StatsHistory } from './statsHistory';
+import { StatsDashboard } from './dashboard';
+import { DiskStateTracker } from './diskState';
+import { runSaveParticipants, saveWithoutParticipants } from './saveParticipants';
+import { FailedSave, RetryQueue } from './retryQueue';
+import { FailedSavesProvider } from './failedSavesView';
+import { SnapshotEntry, SnapshotLimits, SnapshotStore } from './snapshots';
+import { DELAY_MODES, isDelayMode, OverrideRule, resolveSaveProfile, SaveProfile, validateOverrideRule } from './profiles';
+import { SaveScheduler } from './saveScheduler';
+import { checkDocumentSize, checkNotebookSize } from './documentSize';
+import { ExtensionApi, PendingSave, QuickAutoSaveApi, SaveTrigger } from './api';
+import { formatRemaining, Suspension, SuspensionManager } from './suspension';
+import { getCachedConflictMarkers, GitOperationWatcher, hasConflictMarkers } from './gitState';
+import { AutoSaveEvaluation, getStatusLabel, showEvaluation } from './eligibility';
+import { ScratchFile, ScratchFiles, UntitledSaveMode } from './scratchFiles';
+import { SaveHistoryProvider } from './saveHistoryView';
+import { describeEntry, SaveTimeline } from './saveTimeline';
+import { PostSaveActionRule, PostSaveActions, redactPostSaveActionRule, validatePostSaveActionRule } from './postSaveActions';
+import { checkScheme, DEFAULT_DENIED_SCHEMES, SchemeLatencyTracker, SchemePolicySettings } from './schemePolicy';
+import { AutoSaveDocument, isNotebook, NOTEBOOK_CELL_SCHEME, NotebookAutoSaver, toProfileTarget } from './notebooks';
+import { AutoSaveExceptions } from './exceptions';
 
 interface SaveTimeout {
-    timeout: NodeJS.Timeout;
+    // Undefined once the save is waiting for a suspension to end
+    timeout: NodeJS.Timeout | undefined;
     changeCount: number;
     documentUri: string;
     createdAt: number;
+    delay: number;
+    delayReason: string;
+    // Set while the save is held back because the document has errors
+    held?: boolean;
+    // When the document was first held; kept across edits so the maximum hold time isn't extended
+    heldSince?: number;
+    // Set when the save came due while auto-save was suspended; it runs or is dropped on resume
+    suspendedTrigger?: SaveTrigger;
 }
 
+const SAVE_TRIGGERS: SaveTrigger[] = ['debounce', 'immediate', 'focusChange', 'windowBlur', 'interval', 'idle', 'manual', 'retry', 'api'];
+
+// When saves of a document coalesce in the queue, the higher-ranked trigger wins:
+// explicit requests bypass suspensions and guards, focus changes may run a full save
+const TRIGGER_PRIORITY: Record<SaveTrigger, number> = {
+    debounce: 0,
+    interval: 0,
+    idle: 0,
+    retry: 0,
+    immediate: 1,
+    focusChange: 2,
+    windowBlur: 2,
+    api: 3,
+    manual: 3
+};
+
 interface SaveStats {
     totalSaves: number;
     successfulSaves: number;
     failedSaves: number;
     lastSaveTime: number;
     sessionStartTime: number;
+    savesByTrigger: Record<SaveTrigger, number>;
 }
 
-interface Logger {
-    info(message: string, ...args: any[]): void;
-    warn(message: string, ...args: any[]): void;
-    error(message: string, error?: Error, ...args: any[]): void;
-    debug(message: string, ...args: any[]): void;
-}
-
-class QuickAutoSaveLogger implements Logger {
-    private outputChannel: vscode.OutputChannel;
-    private debugMode: boolean = false;
-
-    constructor() {
-        this.outputChannel = vscode.window.createOutputChannel('Quick Auto-Save');
-        this.updateDebugMode();
-    }
-
-    updateDebugMode() {
-        const config = vscode.workspace.getConfiguration('quickAutoSave');
-        this.debugMode = config.get('enableDebugLogging', false);
-    }
-
-    private log(level: string, message: string, error?: Error, ...args: any[]) {
-        const timestamp = new Date().toISOString();
-        const formattedMessage = `[${timestamp}] [${level}] ${message}`;
-        
-        if (args.length > 0) {
-            console.log(formattedMessage, ...args);
-            this.outputChannel.appendLine(`${formattedMessage} ${JSON.stringify(args)}`);
-        } else {
-            console.log(formattedMessage);
-            this.outputChannel.appendLine(formattedMessage);
-        }
-
-        if (error) {
-            const errorMessage = `Error: ${error.message}\nStack: ${error.stack}`;
-            console.error(errorMessage);
-            this.outputChannel.appendLine(errorMessage);
-        }
-    }
-
-    info(message: string, ...args: any[]) {
-        this.log('INFO', message, undefined, ...args);
-    }
-
-    warn(message: string, ...args: any[]) {
-        this.log('WARN', message, undefined, ...args);
-    }
-
-    error(message: string, error?: Error, ...args: any[]) {
-        this.log('ERROR', message, error, ...args);
-    }
-
-    debug(message: string, ...args: any[]) {
-        if (this.debugMode) {
-            this.log('DEBUG', message, undefined, ...args);
-        }
-    }
-
-    showOutputChannel() {
-        this.outputChannel.show();
-    }
-
-    dispose() {
-        this.outputChannel.dispose();
-    }
-}
+// Log records included in an exported bundle
+const MAX_EXPORTED_LOG_RECORDS = 5000;
+// A save still running after this long is reported as failed
+const SAVE_TIMEOUT_MS = 30000;
+// Shortest time between two save error notifications
+const ERROR_NOTIFICATION_INTERVAL_MS = 5000;
 
 // Global state
 let saveTimeouts: Map<string, SaveTimeout> = new Map();
 let statusBarItem: vscode.StatusBarItem;
 let logger: QuickAutoSaveLogger;
+let fileFilter: FileFilter;
+let cadenceTracker: CadenceTracker;
 let saveStats: SaveStats;
+let statsHistory: StatsHistory;
+let dashboard: StatsDashboard;
+let snapshotStore: SnapshotStore;
+let diskState: DiskStateTracker;
+let retryQueue: RetryQueue;
+let saveScheduler: SaveScheduler;
+let extensionApi: ExtensionApi;
+let suspensions: SuspensionManager;
+// Refreshes the status bar while it shows a countdown
+let statusBarTicker: NodeJS.Timeout | undefined;
+let gitWatcher: GitOperationWatcher;
+let exceptions: AutoSaveExceptions;
+let notebookSaver: NotebookAutoSaver;
+let scratchFiles: ScratchFiles;
+let schemeLatency: SchemeLatencyTracker;
+let postSaveActions: PostSaveActions;
+let saveTimeline: SaveTimeline;
+// Configuration snapshot and resolved profiles, dropped whenever the settings change
+let cachedConfig: vscode.WorkspaceConfiguration | undefined;
+let scopedConfigs: Map<string, vscode.WorkspaceConfiguration> = new Map();
+let profileCache: Map<string, SaveProfile> = new Map();
+let conflictPrompts: Set<string> = new Set();
+// Documents auto-saved without save participants since their last full save
+let deferredFullSaves: Set<string> = new Set();
 let isDisposing = false;
 let healthCheckInterval: NodeJS.Timeout | undefined;
+let intervalTriggerTimer: NodeJS.Timeout | undefined;
+let idleTriggerTimer: NodeJS.Timeout | undefined;
+let lastActiveDocument: vscode.TextDocument | undefined;
+let lastErrorNotificationTime = 0;
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): QuickAutoSaveApi {
     try {
         // Initialize logger first
-        logger = new QuickAutoSaveLogger();
+        logger = new QuickAutoSaveLogger(context.logUri);
         logger.info('Quick Auto-Save extension activation started');
 
+        // Initialize file filter
+        fileFilter = new FileFilter(logger);
+        context.subscriptions.push(fileFilter);
+
+        // Initialize typing cadence tracking for adaptive delays
+        cadenceTracker = new CadenceTracker();
+        schemeLatency = new SchemeLatencyTracker(logger);
+
+        // Initialize the save scheduler every save goes through
+        saveScheduler = new SaveScheduler(() => ({
+            maxConcurrentSaves: getConfig().get('maxConcurrentSaves', 4),
+            maxSavesPerSecond: getConfig().get('maxSavesPerSecond', 20)
+        }), logger);
+        context.subscriptions.push(saveScheduler);
+
+        // Initialize per-file and per-folder exceptions
+        exceptions = new AutoSaveExceptions(context, logger);
+        context.subscriptions.push(exceptions, exceptions.onDidChange(() => {
+            clearDisabledTimeouts('Auto-save disabled for path');
+            updateStatusBar();
+        }));
+
+        // Initialize snooze and automatic suspension
+        suspensions = new SuspensionManager(() => ({
+            suspendWhileDebugging: getConfig().get('suspendWhileDebugging', false),
+            suspendDuringTasks: getConfig().get('suspendDuringTasks', [])
+        }), logger);
+        context.subscriptions.push(suspensions, suspensions.onDidChange(handleSuspensionChange));
+
+        // Suspend repositories with a merge, rebase or cherry-pick in progress
+        gitWatcher = new GitOperationWatcher(suspensions, () => getConfig().get('suspendDuringGitOperations', true), logger);
+        context.subscriptions.push(gitWatcher);
+        gitWatcher.addFolders(vscode.workspace.workspaceFolders ?? []);
+
+        // Initialize the API offered to other extensions
+        extensionApi = new ExtensionApi({
+            flush: flushPendingSaves,
+            getPending: getPendingSaves
+        }, suspensions, logger);
+        context.subscriptions.push(extensionApi);
+
         // Initialize stats
         initializeStats();
+        statsHistory = new StatsHistory(context, logger);
+        context.subscriptions.push(statsHistory);
+
+        // Record saves, skips and failures per file for the Save History view
+        saveTimeline = new SaveTimeline(context, logger);
+        const saveHistoryProvider = new SaveHistoryProvider(saveTimeline);
+        context.subscriptions.push(
+            saveTimeline,
+            saveHistoryProvider,
+            vscode.window.registerTreeDataProvider('quickAutoSave.saveHistory', saveHistoryProvider)
+        );
+
+        // Initialize dashboard
+        dashboard = new StatsDashboard({
+            getData: () => ({
+                session: saveStats,
+                history: statsHistory.getSummary(30),
+                pending: [
+                    ...Array.from(saveTimeouts.values()).map(saveTimeout => ({
+                        uri: saveTimeout.documentUri,
+                        fileName: vscode.workspace.asRelativePath(vscode.Uri.parse(saveTimeout.documentUri), true),
+                        createdAt: saveTimeout.createdAt,
+                        changeCount: saveTimeout.changeCount,
+                        delay: saveTimeout.delay,
+                        held: !!saveTimeout.held
+                    })),
+                    ...notebookSaver.getAllPending().map(entry => ({
+                        uri: entry.notebook.uri.toString(),
+                        fileName: vscode.workspace.asRelativePath(entry.notebook.uri, true),
+                        createdAt: entry.createdAt,
+                        changeCount: entry.changeCount,
+                        delay: entry.delay,
+                        held: false
+                    }))
+                ],
+                adaptiveDelays: cadenceTracker.getRecentDecisions(10).map(({ uri, decision }) => ({
+                    fileName: vscode.workspace.asRelativePath(vscode.Uri.parse(uri), true),
+                    delay: decision.delay,
+                    reason: decision.reason
+                }))
+            }),
+            cancelPendingSave: (uri) => {
+                clearTimeoutForDocument(uri, 'Cancelled from dashboard');
+                notebookSaver.clear(uri, 'Cancelled from dashboard');
+                updateStatusBar();
+            }
+        }, logger);
+        context.subscriptions.push(dashboard);
+
+        // Initialize snapshot history
+        snapshotStore = new SnapshotStore(context, logger);
+        context.subscriptions.push(snapshotStore);
+
+        // Untitled documents are saved to scratch files; old ones are cleaned up on startup
+        scratchFiles = new ScratchFiles(context, () => getConfig().get('scratchDirectory', ''), logger);
+        scratchFiles.cleanup(getConfig().get('scratchMaxAgeDays', 30)).catch(error => {
+            logger.error('Failed to clean up scratch files', error instanceof Error ? error : new Error(String(error)));
+        });
+
+        // Run configured tasks, commands and shell commands after auto-saves
+        postSaveActions = new PostSaveActions(uri => getConfig(uri).get('postSaveActions', []), fileFilter, logger);
+        context.subscriptions.push(postSaveActions);
+
+        // Initialize retry queue and Failed Saves view
+        retryQueue = new RetryQueue(async (uri) => {
+            const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri);
+            if (document) {
+                return saveDocument(document, 'retry');
+            }
+            const notebook = findNotebook(uri);
+            return notebook ? saveNotebook(notebook, 'retry') : true;
+        }, uri => suspensions.isSuspendedFor(vscode.Uri.parse(uri)), logger);
+        const failedSavesProvider = new FailedSavesProvider(retryQueue, uri => getRetryLimit(vscode.Uri.parse(uri)));
+        context.subscriptions.push(
+            retryQueue,
+            retryQueue.onDidChange(() => updateStatusBar()),
+            failedSavesProvider,
+            vscode.window.registerTreeDataProvider('quickAutoSave.failedSaves', failedSavesProvider)
+        );
+
+        // Initialize external change detection
+        diskState = new DiskStateTracker(logger);
+        context.subscriptions.push(diskState);
+        vscode.workspace.textDocuments
+            .filter(document => getConfig(document).get('detectExternalChanges', true))
+            .forEach(document => diskState.record(document.uri));
+
+        // Initialize notebook auto-save
+        notebookSaver = new NotebookAutoSaver({
+            isEnabled: (uri) => isEnabled(uri) && isTriggerEnabled('debounce', uri),
+            evaluate: (notebook) => evaluateAutoSave(notebook),
+            getProfile: (notebook) => getSaveProfile(notebook),
+            getDelay: (notebook, profile) => {
+                cadenceTracker.recordChange(notebook.uri.toString());
+                return getSaveDelay(notebook, profile);
+            },
+            saveOnOutputChange: (notebook) => getConfig(notebook).get('saveNotebookOnOutputChange', false),
+            flushOnResume: () => getConfig().get('resumeAction', 'flush') === 'flush',
+            save: (notebook, trigger) => saveNotebook(notebook, trigger),
+            refresh: () => updateStatusBar()
+        }, suspensions, logger);
+        context.subscriptions.push(notebookSaver);
+        notebookSaver.watch();
 
         // Initialize status bar
         initializeStatusBar(context);
@@ -109,9 +274,15 @@ export function activate(context: vscode.ExtensionContext) {
         // Set up event listeners
         setupEventListeners(context);
 
+        // Set up additional save triggers
+        setupSaveTriggers(context);
+
         // Start health monitoring
         startHealthMonitoring();
 
+        // Suspend while debugging or running configured tasks
+        suspensions.watchDebugAndTasks();
+
         // Update status bar initially
         updateStatusBar();
 
@@ -121,6 +292,7 @@ export function activate(context: vscode.ExtensionContext) {
         }));
 
         logger.info('Quick Auto-Save extension activated successfully');
+        return extensionApi;
     } catch (error) {
         const errorMessage = 'Failed to activate Quick Auto-Save extension';
         console.error(errorMessage, error);
@@ -135,7 +307,11 @@ function initializeStats() {
         successfulSaves: 0,
         failedSaves: 0,
         lastSaveTime: 0,
-        sessionStartTime: Date.now()
+        sessionStartTime: Date.now(),
+        savesByTrigger: SAVE_TRIGGERS.reduce((counts, trigger) => {
+            counts[trigger] = 0;
+            return counts;
+        }, {} as Record<SaveTrigger, number>)
     };
     logger.debug('Save statistics initialized');
 }
@@ -146,7 +322,8 @@ function initializeStatusBar(context: vscode.ExtensionContext) {
             vscode.StatusBarAlignment.Right, 
             100
         );
-        statusBarItem.command = 'quickAutoSave.toggle';
+        statusBarItem.name = 'Quick Auto-Save';
+        statusBarItem.command = 'quickAutoSave.showMenu';
         statusBarItem.show();
         
         context.subscriptions.push(statusBarItem);
@@ -160,33 +337,88 @@ function initializeStatusBar(context: vscode.ExtensionContext) {
 function registerCommands(context: vscode.ExtensionContext) {
     try {
         // Toggle command
+        // Flips `enabled` where it is currently set for the active file: its workspace
+        // folder, the workspace or the user settings
         const toggleCommand = vscode.commands.registerCommand('quickAutoSave.toggle', async () => {
             try {
-                const config = getConfig();
-                const currentState = config.get('enabled', true);
-                await config.update('enabled', !currentState, vscode.ConfigurationTarget.Global);
-                
-                const status = !currentState ? 'enabled' : 'disabled';
-                logger.info(`Extension ${status} by user`);
-                vscode.window.showInformationMessage(`Quick Auto-Save ${status}`);
-                
-                // Clear any pending saves when disabling
-                if (currentState) { // Was enabled, now disabling
-                    clearAllTimeouts('Extension disabled by user');
-                }
-                
-                updateStatusBar();
+                const uri = vscode.window.activeTextEditor?.document.uri;
+                await toggleEnabled(getEnabledTarget(uri), uri);
             } catch (error) {
                 logger.error('Failed to toggle extension state', error instanceof Error ? error : new Error(String(error)));
                 vscode.window.showErrorMessage('Failed to toggle Quick Auto-Save');
             }
         });
 
+        const toggleWorkspaceCommand = vscode.commands.registerCommand('quickAutoSave.toggleWorkspace', async () => {
+            try {
+                if (!vscode.workspace.workspaceFolders) {
+                    vscode.window.showWarningMessage('Open a folder or workspace to toggle Quick Auto-Save for it');
+                    return;
+                }
+                await toggleEnabled(vscode.ConfigurationTarget.Workspace);
+            } catch (error) {
+                logger.error('Failed to toggle extension state for workspace', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to toggle Quick Auto-Save for this workspace');
+            }
+        });
+
+        const toggleWorkspaceFolderCommand = vscode.commands.registerCommand('quickAutoSave.toggleWorkspaceFolder', async (uri?: vscode.Uri) => {
+            try {
+                const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : await pickWorkspaceFolder();
+                if (!folder) {
+                    return;
+                }
+                await toggleEnabled(vscode.ConfigurationTarget.WorkspaceFolder, folder.uri);
+            } catch (error) {
+                logger.error('Failed to toggle extension state for workspace folder', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to toggle Quick Auto-Save for this folder');
+            }
+        });
+
+        // Toggle a file or folder exception; from the explorer or editor title menus, or for the active file
+        const toggleResourceCommand = vscode.commands.registerCommand('quickAutoSave.toggleResource', async (uri?: vscode.Uri) => {
+            try {
+                const target = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+                if (target) {
+                    await toggleException(target);
+                }
+            } catch (error) {
+                logger.error('Failed to toggle auto-save exception', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to toggle Quick Auto-Save for this path');
+            }
+        });
+
+        const manageExceptionsCommand = vscode.commands.registerCommand('quickAutoSave.manageExceptions', async () => {
+            try {
+                await manageExceptions();
+            } catch (error) {
+                logger.error('Failed to manage exceptions', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to manage Quick Auto-Save exceptions');
+            }
+        });
+
+        const explainCommand = vscode.commands.registerCommand('quickAutoSave.explain', async () => {
+            try {
+                const document = getActiveDocument();
+                if (!document) {
+                    vscode.window.showInformationMessage('Open a file to see why it is or isn\'t auto-saved');
+                    return;
+                }
+                const evaluation = evaluateAutoSave(document, { all: true });
+                logger.info('Auto-save evaluation', { uri: document.uri.toString(), allowed: evaluation.allowed, ...evaluation.toLogFields() });
+                await showEvaluation(document, evaluation);
+            } catch (error) {
+                logger.error('Failed to explain auto-save decision', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to explain the Quick Auto-Save decision');
+            }
+        });
+
         // Save now command
         const saveNowCommand = vscode.commands.registerCommand('quickAutoSave.saveNow', async () => {
             try {
-                const savedCount = await saveAllDirtyDocuments();
-                logger.info(`Manual save all completed: ${savedCount} files saved`);
+                const savedCount = await saveAllDirtyDocuments('manual');
+                await flushDeferredFullSaves('manual');
+                logger.info('Manual save all completed', { savedCount });
                 vscode.window.showInformationMessage(`Saved ${savedCount} files`);
             } catch (error) {
                 logger.error('Failed to save all files', error instanceof Error ? error : new Error(String(error)));
@@ -194,10 +426,22 @@ function registerCommands(context: vscode.ExtensionContext) {
             }
         });
 
-        // Show stats command
+        // Save now with formatting command
+        const saveNowWithFormattingCommand = vscode.commands.registerCommand('quickAutoSave.saveNowWithFormatting', async () => {
+            try {
+                const savedCount = await flushDeferredFullSaves('manual', true);
+                logger.info('Manual formatted save all completed', { savedCount });
+                vscode.window.showInformationMessage(`Formatted and saved ${savedCount} files`);
+            } catch (error) {
+                logger.error('Failed to format and save all files', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to format and save all files');
+            }
+        });
+
+        // Show stats command; the statistics live in the dashboard
         const showStatsCommand = vscode.commands.registerCommand('quickAutoSave.showStats', () => {
             try {
-                showSaveStatistics();
+                dashboard.show();
             } catch (error) {
                 logger.error('Failed to show statistics', error instanceof Error ? error : new Error(String(error)));
                 vscode.window.showErrorMessage('Failed to show statistics');
@@ -213,12 +457,56 @@ function registerCommands(context: vscode.ExtensionContext) {
             }
         });
 
+        // Status bar menu command
+        const showMenuCommand = vscode.commands.registerCommand('quickAutoSave.showMenu', async () => {
+            try {
+                await showControlMenu();
+            } catch (error) {
+                logger.error('Failed to show menu', error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+
+        // Snooze command
+        const snoozeCommand = vscode.commands.registerCommand('quickAutoSave.snooze', async (duration?: number | 'reload') => {
+            try {
+                await snooze(duration);
+            } catch (error) {
+                logger.error('Failed to snooze', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to snooze Quick Auto-Save');
+            }
+        });
+
+        // Export logs command
+        const exportLogsCommand = vscode.commands.registerCommand('quickAutoSave.exportLogs', async () => {
+            try {
+                await exportLogs(context);
+            } catch (error) {
+                logger.error('Failed to export logs', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to export Quick Auto-Save logs');
+            }
+        });
+
         // Clear stats command
-        const clearStatsCommand = vscode.commands.registerCommand('quickAutoSave.clearStats', () => {
+        const clearStatsCommand = vscode.commands.registerCommand('quickAutoSave.clearStats', async (scope?: 'session' | ClearScope) => {
             try {
+                if (!scope) {
+                    const picked = await vscode.window.showQuickPick([
+                        { label: 'Session', description: 'Reset the statistics of the current session', scope: 'session' as const },
+                        { label: 'Workspace', description: 'Also delete the saved history of this workspace', scope: 'workspace' as const },
+                        { label: 'All', description: 'Also delete the saved history of every workspace', scope: 'all' as const }
+                    ], { placeHolder: 'Which statistics should be cleared?' });
+                    if (!picked) {
+                        return;
+                    }
+                    scope = picked.scope;
+                }
+
                 initializeStats();
-                logger.info('Statistics cleared by user');
-                vscode.window.showInformationMessage('Quick Auto-Save statistics cleared');
+                if (scope !== 'session') {
+                    await statsHistory.clear(scope);
+                }
+                logger.info('Statistics cleared by user', { scope });
+                vscode.window.showInformationMessage(`Quick Auto-Save statistics cleared (${scope})`);
                 updateStatusBar();
             } catch (error) {
                 logger.error('Failed to clear statistics', error instanceof Error ? error : new Error(String(error)));
@@ -226,12 +514,169 @@ function registerCommands(context: vscode.ExtensionContext) {
             }
         });
 
+        // Open dashboard command
+        const openDashboardCommand = vscode.commands.registerCommand('quickAutoSave.openDashboard', () => {
+            try {
+                dashboard.show();
+            } catch (error) {
+                logger.error('Failed to open dashboard', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to open dashboard');
+            }
+        });
+
+        const showScratchFilesCommand = vscode.commands.registerCommand('quickAutoSave.showScratchFiles', async () => {
+            try {
+                await showScratchFiles();
+            } catch (error) {
+                logger.error('Failed to show scratch files', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to show scratch files');
+            }
+        });
+
+        const showSaveHistoryCommand = vscode.commands.registerCommand('quickAutoSave.showSaveHistory', async (uri?: vscode.Uri) => {
+            try {
+                const target = uri ?? getActiveDocument()?.uri;
+                if (!target) {
+                    vscode.window.showInformationMessage('Quick Auto-Save: Open a file first.');
+                    return;
+                }
+                await showSaveHistory(target);
+            } catch (error) {
+                logger.error('Failed to show save history', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to show save history');
+            }
+        });
+
+        const showSaveEventCommand = vscode.commands.registerCommand('quickAutoSave.showSaveEvent', async (uri: vscode.Uri, id: string) => {
+            try {
+                await saveTimeline.showDetails(uri, id);
+            } catch (error) {
+                logger.error('Failed to show save event', error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+
+        // Snapshot commands
+        const showSnapshotsCommand = vscode.commands.registerCommand('quickAutoSave.showSnapshots', async (uri?: vscode.Uri) => {
+            try {
+                const document = await getDocumentForCommand(uri);
+                const entry = document && await pickSnapshot(document);
+                if (!document || !entry) {
+                    return;
+                }
+
+                const action = await vscode.window.showQuickPick(['Compare with Current', 'Restore'], {
+                    placeHolder: `Snapshot from ${new Date(entry.timestamp).toLocaleString()}`
+                });
+                if (action === 'Compare with Current') {
+                    await compareSnapshot(document, entry);
+                } else if (action === 'Restore') {
+                    await restoreSnapshot(document, entry);
+                }
+            } catch (error) {
+                logger.error('Failed to show snapshots', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to show snapshots');
+            }
+        });
+
+        const compareSnapshotCommand = vscode.commands.registerCommand('quickAutoSave.compareSnapshot', async (uri?: vscode.Uri) => {
+            try {
+                const document = await getDocumentForCommand(uri);
+                const entry = document && await pickSnapshot(document);
+                if (document && entry) {
+                    await compareSnapshot(document, entry);
+                }
+            } catch (error) {
+                logger.error('Failed to compare snapshot', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to compare snapshot');
+            }
+        });
+
+        const restoreSnapshotCommand = vscode.commands.registerCommand('quickAutoSave.restoreSnapshot', async (uri?: vscode.Uri) => {
+            try {
+                const document = await getDocumentForCommand(uri);
+                const entry = document && await pickSnapshot(document);
+                if (document && entry) {
+                    await restoreSnapshot(document, entry);
+                }
+            } catch (error) {
+                logger.error('Failed to restore snapshot', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to restore snapshot');
+            }
+        });
+
+        // Failed Saves view commands
+        const retryFailedSaveCommand = vscode.commands.registerCommand('quickAutoSave.retryFailedSave', (entry: FailedSave) => {
+            try {
+                retryQueue.retryNow(entry.uri);
+            } catch (error) {
+                logger.error('Failed to retry save', error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+
+        const openFailedSaveCommand = vscode.commands.registerCommand('quickAutoSave.openFailedSave', async (entry: FailedSave) => {
+            try {
+                await vscode.window.showTextDocument(vscode.Uri.parse(entry.uri), { preview: false });
+            } catch (error) {
+                logger.error('Failed to open file', error instanceof Error ? error : new Error(String(error)), { uri: entry.uri });
+                vscode.window.showErrorMessage(`Failed to open ${entry.fileName}`);
+            }
+        });
+
+        const stopFailedSaveCommand = vscode.commands.registerCommand('quickAutoSave.stopFailedSave', (entry: FailedSave) => {
+            try {
+                retryQueue.stop(entry.uri);
+                clearTimeoutForDocument(entry.uri, 'Auto-save stopped from Failed Saves view');
+                updateStatusBar();
+            } catch (error) {
+                logger.error('Failed to stop auto-save', error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+
+        const dismissFailedSaveCommand = vscode.commands.registerCommand('quickAutoSave.dismissFailedSave', (entry: FailedSave) => {
+            try {
+                retryQueue.remove(entry.uri);
+            } catch (error) {
+                logger.error('Failed to dismiss failed save', error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+
+        // Export stats command
+        const exportStatsCommand = vscode.commands.registerCommand('quickAutoSave.exportStats', async () => {
+            try {
+                await exportStatistics();
+            } catch (error) {
+                logger.error('Failed to export statistics', error instanceof Error ? error : new Error(String(error)));
+                vscode.window.showErrorMessage('Failed to export statistics');
+            }
+        });
+
         context.subscriptions.push(
             toggleCommand, 
+            toggleWorkspaceCommand,
+            toggleWorkspaceFolderCommand,
+            toggleResourceCommand,
+            manageExceptionsCommand,
+            explainCommand,
+            snoozeCommand,
+            showMenuCommand,
             saveNowCommand, 
+            saveNowWithFormattingCommand,
             showStatsCommand, 
             showLogsCommand, 
-            clearStatsCommand
+            exportLogsCommand,
+            clearStatsCommand,
+            exportStatsCommand,
+            openDashboardCommand,
+            showSnapshotsCommand,
+            showScratchFilesCommand,
+            showSaveHistoryCommand,
+            showSaveEventCommand,
+            compareSnapshotCommand,
+            restoreSnapshotCommand,
+            retryFailedSaveCommand,
+            openFailedSaveCommand,
+            stopFailedSaveCommand,
+            dismissFailedSaveCommand
         );
         
         logger.debug('Commands registered successfully');
@@ -246,24 +691,49 @@ function setupEventListeners(context: vscode.ExtensionContext) {
         // Listen for document changes
         const onDidChangeTextDocument = vscode.workspace.onDidChangeTextDocument((event) => {
             try {
+                // A change that leaves the document clean is a reload from disk, e.g. after
+                // a branch switch; the reloaded content is now the expected on-disk state
+                if (event.contentChanges.length > 0 && !event.document.isDirty
+                    && getConfig(event.document).get('detectExternalChanges', true)) {
+                    diskState.record(event.document.uri);
+                }
                 handleDocumentChange(event);
             } catch (error) {
                 logger.error('Error handling document change', error instanceof Error ? error : new Error(String(error)), {
-                    documentUri: event.document.uri.toString(),
+                    uri: event.document.uri.toString(),
                     changeCount: event.contentChanges.length
                 });
             }
         });
 
+        // Remember the on-disk state of newly opened documents
+        const onDidOpenTextDocument = vscode.workspace.onDidOpenTextDocument((document) => {
+            try {
+                if (getConfig(document).get('detectExternalChanges', true)) {
+                    diskState.record(document.uri);
+                }
+            } catch (error) {
+                logger.error('Error handling document open', error instanceof Error ? error : new Error(String(error)), {
+                    uri: document.uri.toString()
+                });
+            }
+        });
+
         // Clean up timeouts when documents are closed
         const onDidCloseTextDocument = vscode.workspace.onDidCloseTextDocument((document) => {
             try {
                 const uri = document.uri.toString();
                 clearTimeoutForDocument(uri, 'Document closed');
+                cadenceTracker.forget(uri);
+                diskState.forget(uri);
+                deferredFullSaves.delete(uri);
+                retryQueue.remove(uri);
+                profileCache.delete(`${uri}|${document.languageId}`);
+                scratchFiles.forget(uri);
                 logger.debug('Document closed, timeout cleared', { uri });
             } catch (error) {
                 logger.error('Error handling document close', error instanceof Error ? error : new Error(String(error)), {
-                    documentUri: document.uri.toString()
+                    uri: document.uri.toString()
                 });
             }
         });
@@ -276,6 +746,12 @@ function setupEventListeners(context: vscode.ExtensionContext) {
                 if (saveTimeouts.has(uri)) {
                     clearTimeoutForDocument(uri, 'Document manually saved');
                 }
+                // Whatever was saved is now the expected on-disk state
+                diskState.resume(uri);
+                if (getConfig(document).get('detectExternalChanges', true)) {
+                    diskState.record(document.uri);
+                }
+                updateStatusBar();
                 logger.debug('Document manually saved', { uri: document.uri.toString() });
             } catch (error) {
                 logger.error('Error handling document save event', error instanceof Error ? error : new Error(String(error)));
@@ -286,23 +762,47 @@ function setupEventListeners(context: vscode.ExtensionContext) {
         const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration((event) => {
             try {
                 if (event.affectsConfiguration('quickAutoSave')) {
+                    refreshConfig();
                     logger.debug('Configuration changed');
-                    logger.updateDebugMode();
+                    logger.updateConfiguration();
+                    fileFilter.refresh();
                     updateStatusBar();
                     
-                    // If disabled, clear all timeouts
-                    if (!isEnabled()) {
-                        clearAllTimeouts('Extension disabled via configuration');
-                    }
+                    // Drop pending saves of documents that no longer qualify, including those in folders now disabled
+                    clearIneligibleTimeouts('No longer auto-saved after configuration change');
                     
                     // Validate configuration
                     validateConfiguration();
+
+                    // Pick up new interval/idle settings
+                    restartTimedTriggers();
+
+                    // Drop debug/task/git suspensions that are no longer configured
+                    suspensions.refreshSettings();
+                    gitWatcher.refresh();
                 }
             } catch (error) {
                 logger.error('Error handling configuration change', error instanceof Error ? error : new Error(String(error)));
             }
         });
 
+        // Release held saves once their errors clear
+        const onDidChangeDiagnostics = vscode.languages.onDidChangeDiagnostics((event) => {
+            try {
+                event.uris.forEach(changedUri => {
+                    const uri = changedUri.toString();
+                    if (saveTimeouts.get(uri)?.held && !hasErrorDiagnostics(changedUri)) {
+                        releaseHeldSave(uri, 'Errors cleared');
+                    }
+                });
+            } catch (error) {
+                logger.error('Error handling diagnostics change', error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+
+        // Describe the active editor in the status bar
+        const onDidChangeActiveEditor = vscode.window.onDidChangeActiveTextEditor(() => updateStatusBar());
+
         // Handle workspace changes
         const onDidChangeWorkspaceFolders = vscode.workspace.onDidChangeWorkspaceFolders((event) => {
             try {
@@ -310,6 +810,17 @@ function setupEventListeners(context: vscode.ExtensionContext) {
                     added: event.added.length,
                     removed: event.removed.length
                 });
+                // Relative paths, and so glob matches, depend on the workspace folders
+                refreshConfig();
+                fileFilter.refresh();
+                gitWatcher.removeFolders(event.removed);
+                gitWatcher.addFolders(event.added);
+
+                // Settings resolve per folder, so a pending save may no longer apply
+                clearIneligibleTimeouts('No longer auto-saved after workspace folder change');
+                // A new folder may turn on the interval or idle trigger
+                restartTimedTriggers();
+                updateStatusBar();
             } catch (error) {
                 logger.error('Error handling workspace change', error instanceof Error ? error : new Error(String(error)));
             }
@@ -317,9 +828,12 @@ function setupEventListeners(context: vscode.ExtensionContext) {
 
         context.subscriptions.push(
             onDidChangeTextDocument,
+            onDidOpenTextDocument,
             onDidCloseTextDocument,
             onDidSaveTextDocument,
             onDidChangeConfiguration,
+            onDidChangeDiagnostics,
+            onDidChangeActiveEditor,
             onDidChangeWorkspaceFolders
         );
         
@@ -330,136 +844,583 @@ function setupEventListeners(context: vscode.ExtensionContext) {
     }
 }
 
-function handleDocumentChange(event: vscode.TextDocumentChangeEvent) {
-    if (!isEnabled() || isDisposing) return;
-    
-    const document = event.document;
-    const uri = document.uri.toString();
-    
+function setupSaveTriggers(context: vscode.ExtensionContext) {
     try {
-        // Skip if document doesn't meet criteria
-        if (!shouldAutoSave(document)) {
-            logger.debug('Document skipped for auto-save', {
-                uri,
-                isDirty: document.isDirty,
-                isUntitled: document.isUntitled,
-                languageId: document.languageId
-            });
-            return;
-        }
-        
-        const config = getConfig();
-        const saveDelay = Math.max(50, Math.min(10000, config.get('saveDelay', 200))); // Clamp between 50ms and 10s
-        const saveOnEveryChange = config.get('saveOnEveryChange', false);
+        lastActiveDocument = vscode.window.activeTextEditor?.document;
 
-        // Clear existing timeout for this document
-        clearTimeoutForDocument(uri, 'New change detected');
+        // Save the previous editor's document when focus moves to another editor
+        const onDidChangeActiveTextEditor = vscode.window.onDidChangeActiveTextEditor((editor) => {
+            try {
+                const previousDocument = lastActiveDocument;
+                lastActiveDocument = editor?.document;
 
-        // Save immediately if configured to do so
-        if (saveOnEveryChange) {
-            logger.debug('Saving immediately due to saveOnEveryChange setting', { uri });
-            saveDocument(document).catch(error => {
-                logger.error('Failed immediate save', error instanceof Error ? error : new Error(String(error)), { uri });
-            });
-            return;
-        }
+                if (!previousDocument || previousDocument === editor?.document) {
+                    return;
+                }
+                if (!isEnabled(previousDocument.uri) || isDisposing) {
+                    return;
+                }
 
-        // Set up debounced save with error handling
-        const timeoutId = setTimeout(() => {
-            try {
-                if (!isDisposing && saveTimeouts.has(uri)) {
-                    saveDocument(document).catch(error => {
-                        logger.error('Failed debounced save', error instanceof Error ? error : new Error(String(error)), { uri });
-                    }).finally(() => {
-                        saveTimeouts.delete(uri);
+                const uri = previousDocument.uri.toString();
+                if (isTriggerEnabled('focusChange', previousDocument) && shouldAutoSave(previousDocument)) {
+                    clearTimeoutForDocument(uri, 'Saving on focus change');
+                    saveDocument(previousDocument, 'focusChange').catch(error => {
+                        logger.error('Failed focus change save', error instanceof Error ? error : new Error(String(error)), { uri });
+                    });
+                } else if (deferredFullSaves.has(uri) && usesSaveParticipants('focusChange', previousDocument)) {
+                    runDeferredFullSave(previousDocument, 'focusChange').catch(error => {
+                        logger.error('Failed deferred full save', error instanceof Error ? error : new Error(String(error)), { uri });
                     });
                 }
             } catch (error) {
-                logger.error('Error in save timeout callback', error instanceof Error ? error : new Error(String(error)), { uri });
-                saveTimeouts.delete(uri);
+                logger.error('Error handling active editor change', error instanceof Error ? error : new Error(String(error)));
             }
-        }, saveDelay);
-
-        const currentTimeout = saveTimeouts.get(uri);
-        saveTimeouts.set(uri, {
-            timeout: timeoutId,
-            changeCount: (currentTimeout?.changeCount || 0) + 1,
-            documentUri: uri,
-            createdAt: Date.now()
         });
 
-        logger.debug('Save timeout scheduled', { 
-            uri, 
-            delay: saveDelay,
-            changeCount: saveTimeouts.get(uri)?.changeCount
+        // Save all dirty documents when the window loses focus
+        const onDidChangeWindowState = vscode.window.onDidChangeWindowState((state) => {
+            try {
+                if (state.focused || isDisposing) {
+                    return;
+                }
+
+                const saveAll = isTriggerEnabledAnywhere('windowBlur') ? saveAllDirtyDocuments('windowBlur') : Promise.resolve(0);
+                saveAll.then(() => flushDeferredFullSaves('windowBlur')).catch(error => {
+                    logger.error('Failed window blur save', error instanceof Error ? error : new Error(String(error)));
+                });
+            } catch (error) {
+                logger.error('Error handling window state change', error instanceof Error ? error : new Error(String(error)));
+            }
         });
 
+        context.subscriptions.push(onDidChangeActiveTextEditor, onDidChangeWindowState);
+
+        restartTimedTriggers();
+        logger.debug('Save triggers setup completed', { triggers: getConfig().get('triggers', ['debounce']) });
     } catch (error) {
-        logger.error('Error in handleDocumentChange', error instanceof Error ? error : new Error(String(error)), { uri });
+        logger.error('Failed to setup save triggers', error instanceof Error ? error : new Error(String(error)));
+        throw error;
     }
 }
 
-function shouldAutoSave(document: vscode.TextDocument): boolean {
+function isTriggerEnabled(trigger: SaveTrigger, scope?: vscode.Uri | AutoSaveDocument): boolean {
+    const triggers: string[] = getConfig(scope).get('triggers', ['debounce']);
+    return Array.isArray(triggers) && triggers.includes(trigger);
+}
+
+/**
+ * Whether the workspace or any of its folders turns the trigger on. Workspace-wide
+ * triggers run if so; saveAllDirtyDocuments then checks each document's own setting.
+ */
+function isTriggerEnabledAnywhere(trigger: SaveTrigger): boolean {
+    return isTriggerEnabled(trigger) || (vscode.workspace.workspaceFolders ?? []).some(folder => isTriggerEnabled(trigger, folder.uri));
+}
+
+function restartTimedTriggers() {
     try {
-        // Skip if document is not dirty
-        if (!document.isDirty) {
-            return false;
+        if (intervalTriggerTimer) {
+            clearInterval(intervalTriggerTimer);
+            intervalTriggerTimer = undefined;
         }
 
-        // Skip if document is being saved by another process
-        if (document.isClosed) {
-            return false;
+        if (!isTriggerEnabledAnywhere('idle') && idleTriggerTimer) {
+            clearTimeout(idleTriggerTimer);
+            idleTriggerTimer = undefined;
         }
 
-        const config = getConfig();
-        
-        // Handle untitled documents
-        if (document.isUntitled && !config.get('saveUntitled', false)) {
-            return false;
+        if (isTriggerEnabledAnywhere('interval')) {
+            const intervalSeconds = Math.max(1, getConfig().get('intervalSeconds', 60));
+            intervalTriggerTimer = setInterval(() => {
+                if (isDisposing) {
+                    return;
+                }
+
+                saveAllDirtyDocuments('interval').catch(error => {
+                    logger.error('Failed interval save', error instanceof Error ? error : new Error(String(error)));
+                });
+            }, intervalSeconds * 1000);
+            logger.debug('Interval trigger started', { intervalSeconds });
         }
+    } catch (error) {
+        logger.error('Error restarting timed triggers', error instanceof Error ? error : new Error(String(error)));
+    }
+}
 
-        // Check file type filters
-        const fileName = document.fileName || document.uri.path;
-        const extension = path.extname(fileName).toLowerCase();
+function resetIdleTrigger() {
+    if (idleTriggerTimer) {
+        clearTimeout(idleTriggerTimer);
+        idleTriggerTimer = undefined;
+    }
 
-        // Check excluded file types
-        const excludedTypes: string[] = config.get('excludedFileTypes', []);
-        if (excludedTypes.some(ext => ext.toLowerCase() === extension)) {
-            return false;
+    if (!isTriggerEnabledAnywhere('idle')) {
+        return;
+    }
+
+    const idleSeconds = Math.max(1, getConfig().get('idleSeconds', 30));
+    idleTriggerTimer = setTimeout(() => {
+        idleTriggerTimer = undefined;
+        if (isDisposing) {
+            return;
         }
 
-        // Check enabled file types (if specified)
-        const enabledTypes: string[] = config.get('enabledFileTypes', []);
-        if (enabledTypes.length > 0 && !enabledTypes.some(ext => ext.toLowerCase() === extension)) {
-            return false;
+        logger.debug('Workspace idle, saving dirty documents', { idleSeconds });
+        saveAllDirtyDocuments('idle').catch(error => {
+            logger.error('Failed idle save', error instanceof Error ? error : new Error(String(error)));
+        });
+    }, idleSeconds * 1000);
+}
+
+function handleDocumentChange(event: vscode.TextDocumentChangeEvent) {
+    if (!isEnabled(event.document.uri) || isDisposing) {
+        return;
+    }
+    
+    const hotPathStart = performance.now();
+    const document = event.document;
+    const uri = document.uri.toString();
+    
+    try {
+        // Any edit in any document postpones the workspace-wide idle save
+        if (event.contentChanges.length > 0) {
+            resetIdleTrigger();
+            cadenceTracker.recordChange(uri);
         }
 
-        // Check file size limits
-        const maxFileSize = config.get('maxFileSizeKB', 1024); // Default 1MB
-        const text = document.getText();
-        const fileSizeKB = Buffer.byteLength(text, 'utf8') / 1024;
+        if (!isTriggerEnabled('debounce', document) || document.uri.scheme === NOTEBOOK_CELL_SCHEME) {
+            return;
+        }
+
+        const profile = getSaveProfile(document);
+
+        // Skip if document doesn't meet criteria
+        const evaluation = evaluateAutoSave(document, { profile });
+        if (!evaluation.allowed) {
+            logger.debug('Document skipped for auto-save', {
+                uri,
+                ...evaluation.toLogFields(),
+                languageId: document.languageId,
+                hotPathMs: elapsedSince(hotPathStart)
+            });
+            return;
+        }
         
-        if (fileSizeKB > maxFileSize) {
-            logger.warn('File too large for auto-save', { 
-                uri: document.uri.toString(), 
-                sizeKB: fileSizeKB, 
-                maxSizeKB: maxFileSize 
+        const saveOnEveryChange = profile.saveOnEveryChange;
+        const { delay: saveDelay, reason: delayReason } = getSaveDelay(document, profile);
+
+        // Clear existing timeout for this document
+        const currentTimeout = saveTimeouts.get(uri);
+        clearTimeoutForDocument(uri, 'New change detected');
+
+        // Save immediately if configured to do so
+        if (saveOnEveryChange) {
+            logger.debug('Saving immediately due to saveOnEveryChange setting', { uri });
+            saveDocument(document, 'immediate', profile).catch(error => {
+                logger.error('Failed immediate save', error instanceof Error ? error : new Error(String(error)), { uri });
             });
-            return false;
+            return;
         }
 
-        return true;
+        // Set up debounced save with error handling
+        const timeoutId = setTimeout(() => {
+            try {
+                if (!isDisposing && saveTimeouts.has(uri)) {
+                    if (profile.holdOnErrors && hasErrorDiagnostics(document.uri)) {
+                        holdSave(uri);
+                        return;
+                    }
+
+                    saveDocument(document, 'debounce', profile).catch(error => {
+                        logger.error('Failed debounced save', error instanceof Error ? error : new Error(String(error)), { uri });
+                    }).finally(() => {
+                        // A save guard may have scheduled a new attempt in the meantime
+                        if (saveTimeouts.get(uri) === pendingSave) {
+                            saveTimeouts.delete(uri);
+                        }
+                    });
+                }
+            } catch (error) {
+                logger.error('Error in save timeout callback', error instanceof Error ? error : new Error(String(error)), { uri });
+                saveTimeouts.delete(uri);
+            }
+        }, saveDelay);
+
+        const pendingSave: SaveTimeout = {
+            timeout: timeoutId,
+            changeCount: (currentTimeout?.changeCount || 0) + 1,
+            documentUri: uri,
+            createdAt: Date.now(),
+            delay: saveDelay,
+            delayReason,
+            heldSince: currentTimeout?.heldSince
+        };
+        saveTimeouts.set(uri, pendingSave);
+
+        dashboard.refresh();
+        if (vscode.window.activeTextEditor?.document === document) {
+            updateStatusBar();
+        }
+        logger.debug('Save timeout scheduled', { 
+            uri, 
+            delay: saveDelay,
+            delayReason,
+            changeCount: saveTimeouts.get(uri)?.changeCount,
+            profile,
+            hotPathMs: elapsedSince(hotPathStart)
+        });
+
     } catch (error) {
-        logger.error('Error in shouldAutoSave check', error instanceof Error ? error : new Error(String(error)), {
-            uri: document.uri.toString()
+        logger.error('Error in handleDocumentChange', error instanceof Error ? error : new Error(String(error)), { uri });
+    }
+}
+
+/**
+ * The debounce delay after a change: the profile's fixed delay or one learned from the
+ * typing cadence, raised for slow or remote URI schemes.
+ */
+function getSaveDelay(document: AutoSaveDocument, profile: SaveProfile): { delay: number; reason: string } {
+    const uri = document.uri.toString();
+    let delay = Math.max(50, Math.min(10000, profile.saveDelay)); // Clamp between 50ms and 10s
+    let reason = `fixed (${profile.source})`;
+
+    if (profile.delayMode === 'adaptive') {
+        const config = getConfig(document);
+        const minDelay = Math.max(50, Math.min(10000, config.get('adaptiveMinDelay', 150)));
+        const maxDelay = Math.max(minDelay, Math.min(10000, config.get('adaptiveMaxDelay', 2000)));
+        const decision = cadenceTracker.computeDelay(uri, document, { minDelay, maxDelay, fallbackDelay: delay });
+        delay = decision.delay;
+        reason = `adaptive: ${decision.reason}`;
+    }
+
+    // Remote and virtual file systems can ask for a longer delay, or get one when their saves are slow
+    const schemeAdjustment = schemeLatency.adjustDelay(document.uri.scheme, delay, getSchemeSettings(document));
+    if (schemeAdjustment.reason) {
+        logger.debug('Debounce delay raised for URI scheme', {
+            uri,
+            scheme: document.uri.scheme,
+            from: delay,
+            to: schemeAdjustment.delay,
+            reason: schemeAdjustment.reason
         });
-        return false;
+        delay = schemeAdjustment.delay;
+        reason = `${reason}; ${schemeAdjustment.reason}`;
     }
+
+    return { delay, reason };
+}
+
+function hasErrorDiagnostics(uri: vscode.Uri): boolean {
+    return vscode.languages.getDiagnostics(uri).some(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error);
 }
 
-async function saveDocument(document: vscode.TextDocument): Promise<boolean> {
+function holdSave(uri: string) {
+    try {
+        const saveTimeout = saveTimeouts.get(uri);
+        if (!saveTimeout) {
+            return;
+        }
+
+        const heldSince = saveTimeout.heldSince ?? Date.now();
+        const maxHoldMs = Math.max(1, getConfig(vscode.Uri.parse(uri)).get('maxHoldSeconds', 10)) * 1000;
+        const remaining = Math.max(0, heldSince + maxHoldMs - Date.now());
+
+        saveTimeouts.set(uri, {
+            ...saveTimeout,
+            timeout: setTimeout(() => releaseHeldSave(uri, 'Maximum hold time reached'), remaining),
+            held: true,
+            heldSince
+        });
+
+        dashboard.refresh();
+        logger.debug('Save held while document has errors', { uri, heldForMs: Date.now() - heldSince, remainingMs: remaining });
+        updateStatusBar();
+    } catch (error) {
+        logger.error('Error holding save', error instanceof Error ? error : new Error(String(error)), { uri });
+    }
+}
+
+function releaseHeldSave(uri: string, reason: string) {
+    try {
+        const saveTimeout = saveTimeouts.get(uri);
+        if (!saveTimeout?.held || isDisposing) {
+            return;
+        }
+
+        clearTimeout(saveTimeout.timeout);
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri);
+        if (!document) {
+            saveTimeouts.delete(uri);
+            updateStatusBar();
+            return;
+        }
+
+        logger.debug('Releasing held save', { uri, reason, heldForMs: Date.now() - (saveTimeout.heldSince ?? Date.now()) });
+        saveDocument(document, 'debounce').catch(error => {
+            logger.error('Failed held save', error instanceof Error ? error : new Error(String(error)), { uri });
+        }).finally(() => {
+            if (saveTimeouts.get(uri) === saveTimeout) {
+                saveTimeouts.delete(uri);
+            }
+            updateStatusBar();
+        });
+    } catch (error) {
+        logger.error('Error releasing held save', error instanceof Error ? error : new Error(String(error)), { uri });
+        saveTimeouts.delete(uri);
+    }
+}
+
+interface EvaluateOptions {
+    profile?: SaveProfile;
+    // Run every check instead of stopping at the first failure
+    all?: boolean;
+    // Leave out the dirty check, to describe a saved document
+    ignoreDirty?: boolean;
+}
+
+/**
+ * Checks whether the document may be auto-saved. Suspensions are only reported when
+ * every check is asked for, since a suspended save is deferred rather than skipped.
+ */
+function evaluateAutoSave(document: AutoSaveDocument, options: EvaluateOptions = {}): AutoSaveEvaluation {
+    const evaluation = new AutoSaveEvaluation(options.all);
     const uri = document.uri.toString();
-    const startTime = Date.now();
+    const notebook = isNotebook(document);
+
+    try {
+        // Cell edits are saved with their notebook
+        if (!notebook && document.uri.scheme === NOTEBOOK_CELL_SCHEME) {
+            evaluation.record({ id: 'notNotebookCell', passed: false, title: 'Not a notebook cell', detail: 'notebook cells are saved with their notebook' });
+            return evaluation;
+        }
+
+        if (!options.ignoreDirty && !evaluation.record({
+            id: 'dirty',
+            passed: document.isDirty,
+            title: 'Has unsaved changes',
+            detail: document.isDirty ? 'the document has unsaved changes' : 'the document has no unsaved changes'
+        })) {
+            return evaluation;
+        }
+
+        // Skip if document is being saved by another process
+        if (!evaluation.record({
+            id: 'open',
+            passed: !document.isClosed,
+            title: 'Open',
+            detail: document.isClosed ? 'the document was closed' : 'the document is open'
+        })) {
+            return evaluation;
+        }
+
+        // Skip read-only, internal and other denied URI schemes
+        const scheme = checkScheme(document.uri.scheme, getSchemeSettings(document));
+        if (!evaluation.record({
+            id: 'schemeAllowed',
+            passed: scheme.allowed,
+            title: 'URI scheme allowed',
+            detail: scheme.detail,
+            link: { setting: scheme.setting }
+        })) {
+            return evaluation;
+        }
+
+        // Skip documents in disabled folders and excepted files
+        const enabled = getConfig(document.uri).get('enabled', true);
+        if (!evaluation.record({
+            id: 'enabled',
+            passed: enabled,
+            title: 'Auto-save enabled',
+            detail: enabled ? 'enabled for this workspace folder' : 'disabled in the settings for this workspace or folder',
+            link: { setting: 'quickAutoSave.enabled' }
+        })) {
+            return evaluation;
+        }
+
+        const exception = exceptions.find(document.uri);
+        if (!evaluation.record({
+            id: 'exception',
+            passed: !exception,
+            title: 'No exception',
+            detail: exception
+                ? `auto-save was turned off for ${vscode.workspace.asRelativePath(vscode.Uri.parse(exception), true)}`
+                : 'auto-save was not turned off for this file or its folders',
+            link: { command: 'quickAutoSave.manageExceptions', title: 'Manage Exceptions' }
+        })) {
+            return evaluation;
+        }
+
+        // Skip documents the user stopped from the Failed Saves view
+        const stopped = retryQueue.isStopped(uri);
+        if (!evaluation.record({
+            id: 'notStopped',
+            passed: !stopped,
+            title: 'Not stopped after failures',
+            detail: stopped ? 'auto-save was stopped from the Failed Saves view' : 'no stopped failed save',
+            link: { command: 'quickAutoSave.failedSaves.focus', title: 'Failed Saves' }
+        })) {
+            return evaluation;
+        }
+
+        // Skip documents paused because of an unresolved external change
+        const paused = diskState.isPaused(uri);
+        if (!evaluation.record({
+            id: 'noExternalChange',
+            passed: !paused,
+            title: 'No unresolved change on disk',
+            detail: paused ? 'the file changed on disk and the conflict is not resolved' : 'no unresolved change on disk',
+            link: { setting: 'quickAutoSave.detectExternalChanges' }
+        })) {
+            return evaluation;
+        }
+
+        const config = getConfig(document);
+        const profile = options.profile ?? getSaveProfile(document);
+        // Settings an override rule took over are changed in the rule, not the setting itself
+        const profileSetting = (setting: string) => ({ setting: profile.source === 'default' ? setting : 'quickAutoSave.overrides' });
+
+        // Skip if an override rule disables auto-save for this document
+        if (!evaluation.record({
+            id: 'profileEnabled',
+            passed: profile.enabled,
+            title: 'Not disabled by an override',
+            detail: profile.enabled ? `save profile from ${profile.source}` : `disabled by ${profile.source}`,
+            link: { setting: 'quickAutoSave.overrides' }
+        })) {
+            return evaluation;
+        }
+
+        // Handle untitled documents
+        const untitledBlocked = document.isUntitled && !profile.saveUntitled;
+        if (!evaluation.record({
+            id: 'untitled',
+            passed: !untitledBlocked,
+            title: 'Untitled documents allowed',
+            detail: untitledBlocked
+                ? 'untitled documents are not saved'
+                : document.isUntitled ? 'untitled documents are saved' : 'the document has a file',
+            link: profileSetting('quickAutoSave.saveUntitled')
+        })) {
+            return evaluation;
+        }
+
+        // Check include/exclude rules (extension lists are shorthand for globs)
+        const filterConfig: FileFilterConfig = {
+            include: config.get('include', []),
+            exclude: config.get('exclude', []),
+            enabledFileTypes: config.get('enabledFileTypes', []),
+            excludedFileTypes: config.get('excludedFileTypes', [])
+        };
+
+        const excludingRule = fileFilter.findExcludingRule(document.uri, filterConfig);
+        if (!evaluation.record({
+            id: 'notExcluded',
+            passed: !excludingRule,
+            title: 'Not excluded',
+            detail: excludingRule
+                ? `matches exclude rule "${excludingRule}"`
+                : 'no exclude or excludedFileTypes rule matches',
+            link: { setting: excludingRule && !filterConfig.exclude.includes(excludingRule) ? 'quickAutoSave.excludedFileTypes' : 'quickAutoSave.exclude' }
+        })) {
+            return evaluation;
+        }
+
+        const included = fileFilter.isIncluded(document.uri, filterConfig);
+        if (!evaluation.record({
+            id: 'included',
+            passed: included,
+            title: 'Included',
+            detail: included ? 'matched by include and enabledFileTypes, or no such rules are set' : 'not matched by include or enabledFileTypes',
+            link: { setting: filterConfig.include.length === 0 && filterConfig.enabledFileTypes.length > 0 ? 'quickAutoSave.enabledFileTypes' : 'quickAutoSave.include' }
+        })) {
+            return evaluation;
+        }
+
+        // Check .gitignore/.ignore files
+        const respectIgnoreFiles = config.get('respectIgnoreFiles', false);
+        const ignored = respectIgnoreFiles && fileFilter.isIgnoredByIgnoreFiles(document.uri);
+        if (!evaluation.record({
+            id: 'notIgnored',
+            passed: !ignored,
+            title: 'Not ignored',
+            detail: ignored
+                ? 'ignored by .gitignore/.ignore files'
+                : respectIgnoreFiles ? 'not ignored by .gitignore/.ignore files' : '.gitignore/.ignore files are not consulted',
+            link: { setting: 'quickAutoSave.respectIgnoreFiles' }
+        })) {
+            return evaluation;
+        }
+
+        // Check file size limits without copying the buffer where the length settles it
+        const size = notebook ? checkNotebookSize(document, profile.maxFileSizeKB) : checkDocumentSize(document, profile.maxFileSizeKB);
+        const sizeText = `${size.exact ? '' : 'about '}${Math.round(size.sizeKB)} KB`;
+        if (!evaluation.record({
+            id: 'size',
+            passed: !size.exceeds,
+            title: 'Within the size limit',
+            detail: `${sizeText} ${size.exceeds ? 'exceeds' : 'is within'} the ${profile.maxFileSizeKB} KB limit`,
+            link: profileSetting('quickAutoSave.maxFileSizeKB')
+        })) {
+            return evaluation;
+        }
+
+        // Don't write half-resolved merge conflicts to disk. Scanning is too slow for every
+        // change, so saves scan when they run and other checks reuse the last result
+        const skipConflictMarkers = config.get('skipConflictMarkers', true);
+        const conflicted = skipConflictMarkers && !notebook
+            && (options.all ? hasConflictMarkers(document) : getCachedConflictMarkers(document) === true);
+        if (!notebook && !evaluation.record({
+            id: 'noConflictMarkers',
+            passed: !conflicted,
+            title: 'No conflict markers',
+            detail: conflicted
+                ? 'the document contains merge conflict markers'
+                : !skipConflictMarkers ? 'conflict markers are not checked'
+                : options.all ? 'no merge conflict markers found' : 'checked when the save runs',
+            link: { setting: 'quickAutoSave.skipConflictMarkers' }
+        })) {
+            return evaluation;
+        }
+
+        if (options.all) {
+            const active = suspensions.getActive(document.uri);
+            evaluation.record({
+                id: 'notSuspended',
+                passed: active.length === 0,
+                title: 'Not suspended',
+                detail: active.length > 0
+                    ? `saves are deferred: ${active.map(describeSuspension).join(', ')}`
+                    : 'no snooze, debug session, task or git operation is suspending saves',
+                link: { command: 'quickAutoSave.snooze', title: 'Snooze' }
+            });
+        }
+    } catch (error) {
+        logger.error('Error in shouldAutoSave check', error instanceof Error ? error : new Error(String(error)), { uri });
+        evaluation.record({ id: 'error', passed: false, title: 'Checks completed', detail: 'the checks failed with an error, see the logs' });
+    }
+
+    return evaluation;
+}
+
+function shouldAutoSave(document: AutoSaveDocument, profile?: SaveProfile): boolean {
+    const evaluation = evaluateAutoSave(document, { profile });
+    if (!evaluation.allowed && document.isDirty) {
+        logger.debug('Document skipped for auto-save', { uri: document.uri.toString(), ...evaluation.toLogFields() });
+    }
+    return evaluation.allowed;
+}
+
+/**
+ * Queues the save with the scheduler; a save already waiting for the document is
+ * reused, taking this trigger if it ranks higher.
+ */
+function saveDocument(document: vscode.TextDocument, trigger: SaveTrigger, profile?: SaveProfile): Promise<boolean> {
+    return saveScheduler.schedule(document.uri.toString(), () => performSave(document, trigger, profile), TRIGGER_PRIORITY[trigger]);
+}
+
+async function performSave(document: vscode.TextDocument, trigger: SaveTrigger, profile?: SaveProfile): Promise<boolean> {
+    const uri = document.uri.toString();
+    // Changes of the pending debounced save this save flushes, if there is one
+    const changeCount = saveTimeouts.get(uri)?.changeCount;
+    let startTime = Date.now();
     
     try {
         if (!document.isDirty) {
@@ -472,72 +1433,594 @@ async function saveDocument(document: vscode.TextDocument): Promise<boolean> {
             return false;
         }
 
+        // Automatic saves wait while auto-save is snoozed or suspended
+        if (suspensions.isSuspendedFor(document.uri) && trigger !== 'manual' && trigger !== 'api') {
+            deferWhileSuspended(document, trigger);
+            return false;
+        }
+
+        if (getConfig(document).get('skipConflictMarkers', true) && hasConflictMarkers(document)) {
+            logger.debug('Document skipped for auto-save', { uri, trigger, reason: 'the document contains merge conflict markers' });
+            updateStatusBar();
+            return false;
+        }
+
+        // Let other extensions veto or delay the save
+        if (trigger !== 'manual') {
+            const decision = await extensionApi.checkGuards({ document, trigger });
+            if (decision.action === 'veto') {
+                logger.info('Save vetoed by save guard', { uri, trigger, reason: decision.reason });
+                saveTimeline.record(document.uri, {
+                    kind: 'skipped',
+                    trigger,
+                    changeCount,
+                    reason: decision.reason ? `Vetoed by save guard: ${decision.reason}` : 'Vetoed by save guard'
+                });
+                return false;
+            }
+            if (decision.action === 'delay') {
+                delaySave(document, trigger, decision.delayMs, decision.reason);
+                return false;
+            }
+            // Guard time doesn't count towards the save time
+            startTime = Date.now();
+        }
+
+        // Don't overwrite changes made on disk by something else
+        if (getConfig(document).get('detectExternalChanges', true) && await diskState.hasExternalChange(document.uri)) {
+            diskState.pause(uri);
+            clearTimeoutForDocument(uri, 'External change detected');
+            saveTimeline.record(document.uri, { kind: 'skipped', trigger, changeCount, reason: 'File changed on disk by another program' });
+            updateStatusBar();
+            promptExternalChange(document, trigger);
+            return false;
+        }
+
         saveStats.totalSaves++;
+        extensionApi.fireWillSave({ document, trigger });
+
+        // Keep the previous on-disk version before overwriting it
+        if (getConfig(document).get('snapshotHistory', false)) {
+            await snapshotStore.capture(document, getSnapshotLimits);
+        }
         
-        // Add timeout to prevent hanging saves
-        const savePromise = document.save();
-        const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(() => reject(new Error('Save operation timed out')), 30000); // 30 second timeout
-        });
+        const fullSave = usesSaveParticipants(trigger, document);
+        let participantsSkipped = false;
+        let scratchFile: vscode.Uri | undefined;
+        // Untitled documents go to a scratch file instead of opening the Save As dialog
+        const savePromise: Thenable<unknown> = document.isUntitled
+            ? scratchFiles.persist(document, getConfig(document).get<UntitledSaveMode>('untitledSaveMode', 'repoint'), trigger).then(file => { scratchFile = file; })
+            : fullSave
+            ? document.save()
+            : saveWithoutParticipants(document).then(result => {
+                participantsSkipped = result === 'participantsSkipped';
+                if (!participantsSkipped) {
+                    logger.debug('Save participants ran, the document is not in the active editor', { uri, trigger });
+                }
+            });
+        await withSaveTimeout(savePromise);
 
-        await Promise.race([savePromise, timeoutPromise]);
+        // Remember documents whose formatting and code actions still need to run
+        if (participantsSkipped) {
+            deferredFullSaves.add(uri);
+        } else {
+            deferredFullSaves.delete(uri);
+        }
+
+        // Record the state we just wrote before the next auto-save compares against it
+        if (getConfig(document).get('detectExternalChanges', true)) {
+            diskState.record(document.uri);
+        }
         
         const saveTime = Date.now() - startTime;
         saveStats.successfulSaves++;
+        statsHistory.recordSave(document, saveTime);
+        schemeLatency.record(document.uri.scheme, saveTime, getSchemeSettings(document).slowSaveThresholdMs);
+        retryQueue.recordSuccess(uri);
+        dashboard.refresh();
+        saveStats.savesByTrigger[trigger]++;
         saveStats.lastSaveTime = Date.now();
         
         updateStatusBar();
         
-        const config = getConfig();
-        if (config.get('showNotifications', false)) {
+        profile = profile ?? getSaveProfile(document);
+        if (profile.showNotifications) {
             const fileName = path.basename(document.fileName || 'Untitled');
             vscode.window.showInformationMessage(`Auto-saved: ${fileName}`, { modal: false });
         }
         
         logger.info('Document auto-saved successfully', { 
             uri, 
+            trigger,
+            participantsSkipped,
+            scratchFile: scratchFile?.toString(),
             saveTimeMs: saveTime,
             fileName: path.basename(document.fileName || 'Untitled')
         });
+        extensionApi.fireDidSave({ document, trigger, saveTimeMs: saveTime });
+        // An untitled document's history belongs to the scratch file it now lives in
+        saveTimeline.record(scratchFile ?? document.uri, { kind: 'saved', trigger, changeCount, saveTimeMs: saveTime });
+        postSaveActions.onDidSave(document);
         
         return true;
         
     } catch (error) {
         const saveTime = Date.now() - startTime;
         saveStats.failedSaves++;
+        statsHistory.recordFailure(document, saveTime, error);
+        dashboard.refresh();
         
         const errorMessage = error instanceof Error ? error.message : String(error);
         logger.error('Failed to save document', error instanceof Error ? error : new Error(errorMessage), { 
             uri, 
+            trigger,
             saveTimeMs: saveTime,
             fileName: path.basename(document.fileName || 'Untitled')
         });
         
-        // Show user-friendly error message
+        extensionApi.fireDidFail({ document, trigger, saveTimeMs: saveTime, error: errorMessage });
+        saveTimeline.record(document.uri, { kind: 'failed', trigger, changeCount, saveTimeMs: saveTime, reason: errorMessage });
+
         const fileName = path.basename(document.fileName || 'Untitled');
+        retryQueue.recordFailure(uri, fileName, error, getRetryLimit(document.uri));
+        showSaveError(fileName, errorMessage, trigger);
         
-        // Don't spam the user with error messages
-        const lastErrorTime = (saveDocument as any).lastErrorTime || 0;
-        const now = Date.now();
-        if (now - lastErrorTime > 5000) { // Only show error every 5 seconds max
-            vscode.window.showErrorMessage(`Failed to auto-save ${fileName}: ${errorMessage}`);
-            (saveDocument as any).lastErrorTime = now;
+        updateStatusBar();
+        return false;
+    }
+}
+
+function findNotebook(uri: string): vscode.NotebookDocument | undefined {
+    // Undefined on VS Code versions without the notebook API
+    return (vscode.workspace.notebookDocuments ?? []).find(notebook => notebook.uri.toString() === uri);
+}
+
+/**
+ * Queues a notebook save with the scheduler, like `saveDocument`.
+ */
+function saveNotebook(notebook: vscode.NotebookDocument, trigger: SaveTrigger): Promise<boolean> {
+    return saveScheduler.schedule(notebook.uri.toString(), () => performNotebookSave(notebook, trigger), TRIGGER_PRIORITY[trigger]);
+}
+
+/**
+ * Saves the whole notebook through its serializer, after the same save guards as a
+ * text document. External change detection and snapshots only apply to text documents.
+ */
+async function performNotebookSave(notebook: vscode.NotebookDocument, trigger: SaveTrigger): Promise<boolean> {
+    const uri = notebook.uri.toString();
+    const fileName = path.basename(notebook.uri.path) || 'Untitled';
+    const target = toProfileTarget(notebook);
+    let startTime = Date.now();
+
+    try {
+        if (!notebook.isDirty) {
+            logger.debug('Notebook not dirty, skipping save', { uri });
+            return true;
         }
-        
+        if (notebook.isClosed) {
+            logger.debug('Notebook closed, skipping save', { uri });
+            return false;
+        }
+
+        // Let other extensions veto or delay the save
+        if (trigger !== 'manual') {
+            const decision = await extensionApi.checkGuards({ document: notebook, trigger });
+            if (decision.action === 'veto') {
+                logger.info('Notebook save vetoed by save guard', { uri, trigger, reason: decision.reason });
+                saveTimeline.record(notebook.uri, {
+                    kind: 'skipped',
+                    trigger,
+                    reason: decision.reason ? `Vetoed by save guard: ${decision.reason}` : 'Vetoed by save guard'
+                });
+                return false;
+            }
+            if (decision.action === 'delay') {
+                notebookSaver.delay(notebook, trigger, decision.delayMs, decision.reason);
+                return false;
+            }
+            // Guard time doesn't count towards the save time
+            startTime = Date.now();
+        }
+
+        saveStats.totalSaves++;
+        extensionApi.fireWillSave({ document: notebook, trigger });
+        const saved = await withSaveTimeout(notebook.save());
+        // save() resolves to false when the notebook became clean in the meantime or the serializer failed
+        if (!saved && notebook.isDirty) {
+            throw new Error('Notebook could not be saved');
+        }
+
+        const saveTime = Date.now() - startTime;
+        saveStats.successfulSaves++;
+        statsHistory.recordSave(target, saveTime);
+        schemeLatency.record(notebook.uri.scheme, saveTime, getSchemeSettings(notebook).slowSaveThresholdMs);
+        retryQueue.recordSuccess(uri);
+        dashboard.refresh();
+        saveStats.savesByTrigger[trigger]++;
+        saveStats.lastSaveTime = Date.now();
+        updateStatusBar();
+        saveTimeline.record(notebook.uri, { kind: 'saved', trigger, saveTimeMs: saveTime });
+        postSaveActions.onDidSave(target);
+
+        if (getSaveProfile(notebook).showNotifications) {
+            vscode.window.showInformationMessage(`Auto-saved: ${fileName}`, { modal: false });
+        }
+
+        logger.info('Notebook auto-saved successfully', { uri, trigger, saveTimeMs: saveTime, cells: notebook.cellCount, fileName });
+        extensionApi.fireDidSave({ document: notebook, trigger, saveTimeMs: saveTime });
+        return true;
+    } catch (error) {
+        const saveTime = Date.now() - startTime;
+        saveStats.failedSaves++;
+        statsHistory.recordFailure(target, saveTime, error);
+        dashboard.refresh();
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error('Failed to save notebook', error instanceof Error ? error : new Error(errorMessage), {
+            uri,
+            trigger,
+            saveTimeMs: saveTime,
+            fileName
+        });
+        extensionApi.fireDidFail({ document: notebook, trigger, saveTimeMs: saveTime, error: errorMessage });
+        saveTimeline.record(notebook.uri, { kind: 'failed', trigger, saveTimeMs: saveTime, reason: errorMessage });
+        retryQueue.recordFailure(uri, fileName, error, getRetryLimit(notebook.uri));
+        showSaveError(fileName, errorMessage, trigger);
+
+        updateStatusBar();
+        return false;
+    }
+}
+
+/**
+ * Rejects when the save hasn't finished within SAVE_TIMEOUT_MS, so a hanging file
+ * system doesn't block the document's later saves.
+ */
+function withSaveTimeout<T>(save: Thenable<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Save operation timed out')), SAVE_TIMEOUT_MS);
+    });
+    return Promise.race([Promise.resolve(save), timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Tells the user about a failed save, at most once per ERROR_NOTIFICATION_INTERVAL_MS
+ * across documents and notebooks. Automatic retries are visible in the Failed Saves
+ * view instead.
+ */
+function showSaveError(fileName: string, errorMessage: string, trigger: SaveTrigger) {
+    const now = Date.now();
+    if (trigger === 'retry' || now - lastErrorNotificationTime <= ERROR_NOTIFICATION_INTERVAL_MS) {
+        return;
+    }
+    lastErrorNotificationTime = now;
+    vscode.window.showErrorMessage(`Failed to auto-save ${fileName}: ${errorMessage}`);
+}
+
+/**
+ * Retries a save a save guard asked to delay. The attempt shows up as a pending save.
+ */
+function delaySave(document: vscode.TextDocument, trigger: SaveTrigger, delayMs: number, reason?: string) {
+    const uri = document.uri.toString();
+    const currentTimeout = saveTimeouts.get(uri);
+    clearTimeoutForDocument(uri, 'Delayed by save guard');
+
+    const pendingSave: SaveTimeout = {
+        timeout: setTimeout(() => {
+            if (isDisposing || saveTimeouts.get(uri) !== pendingSave) {
+                return;
+            }
+            saveDocument(document, trigger).catch(error => {
+                logger.error('Failed delayed save', error instanceof Error ? error : new Error(String(error)), { uri });
+            }).finally(() => {
+                if (saveTimeouts.get(uri) === pendingSave) {
+                    saveTimeouts.delete(uri);
+                }
+                updateStatusBar();
+            });
+        }, delayMs),
+        changeCount: currentTimeout?.changeCount ?? 1,
+        documentUri: uri,
+        createdAt: Date.now(),
+        delay: delayMs,
+        delayReason: `save guard${reason ? `: ${reason}` : ''}`
+    };
+    saveTimeouts.set(uri, pendingSave);
+
+    dashboard.refresh();
+    updateStatusBar();
+    logger.info('Save delayed by save guard', { uri, trigger, delayMs, reason });
+}
+
+/**
+ * Saves the pending document for `uri`, or every pending document, without waiting
+ * for its debounce delay. Used by the extension API.
+ */
+async function flushPendingSaves(uri?: vscode.Uri): Promise<number> {
+    const uris = uri ? [uri.toString()] : [
+        ...saveTimeouts.keys(),
+        ...notebookSaver.getAllPending().map(entry => entry.notebook.uri.toString())
+    ];
+    logger.info('Flushing pending saves', { uri: uri?.toString(), pending: uris.length });
+
+    const results = await Promise.all(uris.map(async (key) => {
+        clearTimeoutForDocument(key, 'Flushed via API');
+        notebookSaver.clear(key, 'Flushed via API');
+        const document: AutoSaveDocument | undefined = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === key) ?? findNotebook(key);
+        if (!document || !document.isDirty || !shouldAutoSave(document)) {
+            return false;
+        }
+        return isNotebook(document) ? saveNotebook(document, 'api') : saveDocument(document, 'api');
+    }));
+
+    updateStatusBar();
+    return results.filter(saved => saved).length;
+}
+
+function getPendingSaves(): PendingSave[] {
+    const documents: PendingSave[] = Array.from(saveTimeouts.values()).map(saveTimeout => ({
+        uri: vscode.Uri.parse(saveTimeout.documentUri),
+        changeCount: saveTimeout.changeCount,
+        dueAt: saveTimeout.held || saveTimeout.suspendedTrigger ? undefined : saveTimeout.createdAt + saveTimeout.delay,
+        held: !!saveTimeout.held
+    }));
+    const notebooks: PendingSave[] = notebookSaver.getAllPending().map(entry => ({
+        uri: entry.notebook.uri,
+        changeCount: entry.changeCount,
+        dueAt: entry.deferred ? undefined : entry.dueAt,
+        held: false
+    }));
+    return documents.concat(notebooks);
+}
+
+/**
+ * Keeps a save that came due during a suspension as pending until the suspension ends.
+ */
+function deferWhileSuspended(document: vscode.TextDocument, trigger: SaveTrigger) {
+    const uri = document.uri.toString();
+    const saveTimeout = saveTimeouts.get(uri);
+    if (saveTimeout?.timeout) {
+        clearTimeout(saveTimeout.timeout);
+    }
+
+    saveTimeouts.set(uri, {
+        changeCount: 1,
+        documentUri: uri,
+        createdAt: Date.now(),
+        delay: 0,
+        delayReason: 'suspended',
+        ...saveTimeout,
+        timeout: undefined,
+        held: false,
+        suspendedTrigger: trigger
+    });
+
+    dashboard.refresh();
+    updateStatusBar();
+    logger.debug('Save deferred while suspended', {
+        uri,
+        trigger,
+        reasons: suspensions.getActive().map(suspension => suspension.reason)
+    });
+}
+
+function handleSuspensionChange() {
+    try {
+        resumeDeferredSaves();
+        retryQueue.resumeWaiting();
         updateStatusBar();
+    } catch (error) {
+        logger.error('Error handling suspension change', error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Saves or drops the saves that came due during a suspension that has since ended,
+ * as configured by `resumeAction`.
+ */
+function resumeDeferredSaves() {
+    const flush = getConfig().get('resumeAction', 'flush') === 'flush';
+    const deferred = Array.from(saveTimeouts.entries()).filter(([uri, saveTimeout]) =>
+        saveTimeout.suspendedTrigger && !suspensions.isSuspendedFor(vscode.Uri.parse(uri)));
+    if (deferred.length === 0) {
+        return;
+    }
+
+    logger.info('Resuming deferred saves', { count: deferred.length, action: flush ? 'flush' : 'drop' });
+    deferred.forEach(([uri, saveTimeout]) => {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri);
+        if (!flush || !document) {
+            clearTimeoutForDocument(uri, 'Dropped after suspension');
+            return;
+        }
+
+        saveDocument(document, saveTimeout.suspendedTrigger!).catch(error => {
+            logger.error('Failed save after suspension', error instanceof Error ? error : new Error(String(error)), { uri });
+        }).finally(() => {
+            if (saveTimeouts.get(uri) === saveTimeout) {
+                saveTimeouts.delete(uri);
+            }
+            updateStatusBar();
+        });
+    });
+}
+
+async function snooze(duration?: number | 'reload') {
+    if (duration === undefined) {
+        const snoozed = suspensions.getActive().some(suspension => suspension.source === 'snooze');
+        const items: (vscode.QuickPickItem & { duration: number | 'reload' | 'resume' })[] = [
+            { label: '5 minutes', duration: 5 },
+            { label: '30 minutes', duration: 30 },
+            { label: 'Until window reload', duration: 'reload' }
+        ];
+        if (snoozed) {
+            items.unshift({ label: 'Resume now', description: 'End the current snooze', duration: 'resume' });
+        }
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Snooze Quick Auto-Save for' });
+        if (!picked) {
+            return;
+        }
+        if (picked.duration === 'resume') {
+            suspensions.releaseSource('snooze');
+            return;
+        }
+        duration = picked.duration;
+    }
+
+    // A new snooze replaces the current one
+    suspensions.releaseSource('snooze');
+    if (duration === 'reload') {
+        suspensions.suspend('snooze', 'Snoozed until window reload');
+    } else {
+        const minutes = Math.max(1, duration);
+        suspensions.suspend('snooze', `Snoozed for ${minutes} minutes`, { durationMs: minutes * 60 * 1000 });
+    }
+}
+
+function describeSuspension(suspension: Suspension): string {
+    if (suspension.until !== undefined) {
+        return `${suspension.reason} (${formatRemaining(suspension.until)} left)`;
+    }
+    return suspension.scope ? `${suspension.reason} (${path.basename(suspension.scope.fsPath)})` : suspension.reason;
+}
+
+function getRetryLimit(uri: vscode.Uri): number {
+    return Math.max(0, getConfig(uri).get('retryLimit', 5));
+}
+
+/**
+ * Whether saves caused by this trigger run save participants (format on save, code
+ * actions on save). With skipSaveParticipants on, only the full save triggers do.
+ */
+function usesSaveParticipants(trigger: SaveTrigger, document: vscode.TextDocument): boolean {
+    const config = getConfig(document);
+    if (!config.get('skipSaveParticipants', false)) {
+        return true;
+    }
+    const fullSaveTriggers: string[] = config.get('fullSaveTriggers', ['focusChange', 'windowBlur', 'manual']);
+    return Array.isArray(fullSaveTriggers) && fullSaveTriggers.includes(trigger);
+}
+
+async function runDeferredFullSave(document: vscode.TextDocument, trigger: SaveTrigger, forceFormat: boolean = false): Promise<boolean> {
+    const uri = document.uri.toString();
+    deferredFullSaves.delete(uri);
+
+    if (document.isClosed) {
         return false;
     }
+
+    await runSaveParticipants(document, forceFormat, logger);
+    if (document.isDirty && shouldAutoSave(document)) {
+        clearTimeoutForDocument(uri, 'Running full save');
+        return saveDocument(document, trigger);
+    }
+    return true;
+}
+
+/**
+ * Runs the deferred formatting pass and a full save for every document that was
+ * auto-saved without save participants. With `forceFormat`, every dirty document
+ * is included and formatted regardless of `editor.formatOnSave`.
+ */
+async function flushDeferredFullSaves(trigger: SaveTrigger, forceFormat: boolean = false): Promise<number> {
+    const documents = vscode.workspace.textDocuments.filter(document => forceFormat
+        ? deferredFullSaves.has(document.uri.toString()) || (document.isDirty && shouldAutoSave(document))
+        : deferredFullSaves.has(document.uri.toString())
+            && getConfig(document).get('skipSaveParticipants', false) && usesSaveParticipants(trigger, document));
+    let savedCount = 0;
+
+    // One at a time, since formatting and code actions may touch other documents
+    for (const document of documents) {
+        try {
+            if (await runDeferredFullSave(document, trigger, forceFormat)) {
+                savedCount++;
+            }
+        } catch (error) {
+            logger.error('Failed deferred full save', error instanceof Error ? error : new Error(String(error)), {
+                uri: document.uri.toString()
+            });
+        }
+    }
+
+    if (documents.length > 0) {
+        logger.info('Deferred full saves completed', { trigger, forceFormat, savedCount, total: documents.length });
+    }
+    return savedCount;
+}
+
+async function promptExternalChange(document: vscode.TextDocument, trigger: SaveTrigger) {
+    const uri = document.uri.toString();
+    if (conflictPrompts.has(uri)) {
+        return;
+    }
+
+    conflictPrompts.add(uri);
+    try {
+        const fileName = path.basename(document.fileName);
+        let choice: string | undefined;
+
+        do {
+            choice = await vscode.window.showWarningMessage(
+                `${fileName} was changed on disk by another program. Auto-save is paused for this file.`,
+                'Overwrite',
+                'Reload from Disk',
+                'Compare'
+            );
+
+            if (choice === 'Compare') {
+                await vscode.commands.executeCommand(
+                    'vscode.diff',
+                    diskState.getDiskUri(document.uri),
+                    document.uri,
+                    `${fileName} (On Disk) ↔ Buffer`
+                );
+            }
+        } while (choice === 'Compare' && !document.isClosed);
+
+        if (choice === 'Overwrite') {
+            logger.info('Overwriting external change', { uri });
+            await diskState.record(document.uri);
+            diskState.resume(uri);
+            await saveDocument(document, trigger);
+        } else if (choice === 'Reload from Disk') {
+            logger.info('Reloading document from disk', { uri });
+            await vscode.window.showTextDocument(document);
+            await vscode.commands.executeCommand('workbench.action.files.revert');
+            await diskState.record(document.uri);
+            diskState.resume(uri);
+        } else {
+            logger.info('External change left unresolved, auto-save stays paused', { uri });
+        }
+    } catch (error) {
+        logger.error('Error resolving external change', error instanceof Error ? error : new Error(String(error)), { uri });
+    } finally {
+        conflictPrompts.delete(uri);
+        updateStatusBar();
+    }
 }
 
-async function saveAllDirtyDocuments(): Promise<number> {
-    const dirtyDocuments = vscode.workspace.textDocuments.filter(doc => doc.isDirty);
+async function saveAllDirtyDocuments(trigger: SaveTrigger): Promise<number> {
+    // Notebook cells are saved with their notebook
+    const dirtyDocuments: AutoSaveDocument[] = [
+        ...vscode.workspace.textDocuments.filter(doc => doc.isDirty && doc.uri.scheme !== NOTEBOOK_CELL_SCHEME),
+        ...(vscode.workspace.notebookDocuments ?? []).filter(notebook => notebook.isDirty)
+    ];
     let savedCount = 0;
     
-    logger.info('Starting save all operation', { dirtyDocumentCount: dirtyDocuments.length });
+    logger.info('Starting save all operation', { trigger, dirtyDocumentCount: dirtyDocuments.length });
     
     const savePromises = dirtyDocuments.map(async (document) => {
-        if (shouldAutoSave(document)) {
-            const success = await saveDocument(document);
+        // Auto-save and automatic triggers may be turned off for some folders or languages
+        if ((trigger === 'manual' || (isEnabled(document.uri) && isTriggerEnabled(trigger, document))) && shouldAutoSave(document)) {
+            let success: boolean;
+            if (isNotebook(document)) {
+                notebookSaver.clear(document.uri.toString(), 'Saving all documents');
+                success = await saveNotebook(document, trigger);
+            } else {
+                success = await saveDocument(document, trigger);
+            }
             if (success) {
                 savedCount++;
             }
@@ -546,7 +2029,7 @@ async function saveAllDirtyDocuments(): Promise<number> {
 
     try {
         await Promise.allSettled(savePromises);
-        logger.info('Save all operation completed', { savedCount, totalDirty: dirtyDocuments.length });
+        logger.info('Save all operation completed', { trigger, savedCount, totalDirty: dirtyDocuments.length });
         return savedCount;
     } catch (error) {
         logger.error('Error during save all operation', error instanceof Error ? error : new Error(String(error)));
@@ -560,13 +2043,234 @@ function clearTimeoutForDocument(uri: string, reason: string = 'Unknown') {
         if (saveTimeout) {
             clearTimeout(saveTimeout.timeout);
             saveTimeouts.delete(uri);
-            logger.debug('Timeout cleared for document', { uri, reason, changeCount: saveTimeout.changeCount });
+            dashboard.refresh();
+            logger.trace('Timeout cleared for document', { uri, reason, changeCount: saveTimeout.changeCount });
         }
     } catch (error) {
         logger.error('Error clearing timeout for document', error instanceof Error ? error : new Error(String(error)), { uri, reason });
     }
 }
 
+function clearDisabledTimeouts(reason: string) {
+    Array.from(saveTimeouts.keys())
+        .filter(uri => !isEnabled(vscode.Uri.parse(uri)))
+        .forEach(uri => clearTimeoutForDocument(uri, reason));
+}
+
+/**
+ * Drops pending saves whose documents no longer qualify, e.g. because the settings
+ * that apply to them changed along with the workspace folders.
+ */
+function clearIneligibleTimeouts(reason: string) {
+    const uris = Array.from(saveTimeouts.keys()).filter(uri => {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri);
+        return !document || !shouldAutoSave(document);
+    });
+    uris.forEach(uri => clearTimeoutForDocument(uri, reason));
+    if (uris.length > 0) {
+        logger.info('Pending saves dropped after re-evaluation', { reason, dropped: uris.length, remaining: saveTimeouts.size });
+    }
+}
+
+/**
+ * The most specific settings scope `enabled` is currently set at for `uri`.
+ */
+function getEnabledTarget(uri?: vscode.Uri): vscode.ConfigurationTarget {
+    const inspected = getConfig(uri).inspect<boolean>('enabled');
+    if (uri && vscode.workspace.getWorkspaceFolder(uri) && inspected?.workspaceFolderValue !== undefined) {
+        return vscode.ConfigurationTarget.WorkspaceFolder;
+    }
+    if (inspected?.workspaceValue !== undefined) {
+        return vscode.ConfigurationTarget.Workspace;
+    }
+    return vscode.ConfigurationTarget.Global;
+}
+
+async function toggleEnabled(target: vscode.ConfigurationTarget, uri?: vscode.Uri) {
+    const config = target === vscode.ConfigurationTarget.WorkspaceFolder
+        ? vscode.workspace.getConfiguration('quickAutoSave', uri)
+        : vscode.workspace.getConfiguration('quickAutoSave');
+    const inspected = config.inspect<boolean>('enabled');
+    const currentState = (target === vscode.ConfigurationTarget.WorkspaceFolder ? inspected?.workspaceFolderValue
+        : target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue
+        : undefined) ?? config.get('enabled', true);
+
+    await config.update('enabled', !currentState, target);
+    refreshConfig();
+
+    const scope = target === vscode.ConfigurationTarget.WorkspaceFolder
+        ? ` for ${vscode.workspace.getWorkspaceFolder(uri!)?.name ?? 'this folder'}`
+        : target === vscode.ConfigurationTarget.Workspace ? ' for this workspace' : '';
+    const status = !currentState ? 'enabled' : 'disabled';
+    logger.info('Extension toggled by user', { enabled: !currentState, target: vscode.ConfigurationTarget[target], uri: uri?.toString() });
+    vscode.window.showInformationMessage(`Quick Auto-Save ${status}${scope}`);
+
+    // Clear any pending saves that are no longer allowed
+    if (currentState) {
+        clearDisabledTimeouts('Extension disabled by user');
+    }
+
+    updateStatusBar();
+}
+
+async function pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length <= 1) {
+        return folders[0];
+    }
+    return vscode.window.showWorkspaceFolderPick({
+        placeHolder: activeFolder ? `Toggle Quick Auto-Save for a folder (active: ${activeFolder.name})` : 'Toggle Quick Auto-Save for a folder'
+    });
+}
+
+async function toggleException(uri: vscode.Uri) {
+    const name = vscode.workspace.asRelativePath(uri, true);
+    if (exceptions.has(uri)) {
+        await exceptions.remove([uri.toString()]);
+        vscode.window.showInformationMessage(`Quick Auto-Save enabled for ${name}`);
+        return;
+    }
+
+    // Covered by a folder exception: offer to remove that one instead
+    const covering = exceptions.find(uri);
+    if (covering) {
+        const folderName = vscode.workspace.asRelativePath(vscode.Uri.parse(covering), true);
+        const choice = await vscode.window.showInformationMessage(
+            `Quick Auto-Save is disabled for ${name} through the exception for ${folderName}.`,
+            'Remove Folder Exception'
+        );
+        if (choice) {
+            await exceptions.remove([covering]);
+        }
+        return;
+    }
+
+    await exceptions.add(uri);
+    vscode.window.showInformationMessage(`Quick Auto-Save disabled for ${name}`);
+}
+
+/**
+ * Lists file/folder exceptions and workspace or folder settings that disable
+ * auto-save, and removes the ones the user picks.
+ */
+async function manageExceptions() {
+    type ExceptionItem = vscode.QuickPickItem & { clear: () => Thenable<void> };
+    const items: ExceptionItem[] = exceptions.getAll().map(uri => ({
+        label: vscode.workspace.asRelativePath(uri, true),
+        description: 'file or folder exception',
+        clear: () => exceptions.remove([uri.toString()])
+    }));
+
+    const workspaceValue = vscode.workspace.getConfiguration('quickAutoSave').inspect<boolean>('enabled')?.workspaceValue;
+    if (workspaceValue !== undefined) {
+        items.push({
+            label: 'Workspace',
+            description: `enabled: ${workspaceValue} in workspace settings`,
+            clear: () => vscode.workspace.getConfiguration('quickAutoSave').update('enabled', undefined, vscode.ConfigurationTarget.Workspace)
+        });
+    }
+    (vscode.workspace.workspaceFolders ?? []).forEach(folder => {
+        const config = vscode.workspace.getConfiguration('quickAutoSave', folder.uri);
+        const folderValue = config.inspect<boolean>('enabled')?.workspaceFolderValue;
+        if (folderValue !== undefined && (vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+            items.push({
+                label: folder.name,
+                description: `enabled: ${folderValue} in folder settings`,
+                clear: () => config.update('enabled', undefined, vscode.ConfigurationTarget.WorkspaceFolder)
+            });
+        }
+    });
+
+    if (items.length === 0) {
+        vscode.window.showInformationMessage('Quick Auto-Save has no workspace, folder or file exceptions');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: 'Select the exceptions to clear'
+    });
+    if (!picked || picked.length === 0) {
+        return;
+    }
+
+    for (const item of picked) {
+        await item.clear();
+    }
+    refreshConfig();
+    updateStatusBar();
+    logger.info('Exceptions cleared', { count: picked.length });
+    vscode.window.showInformationMessage(`Cleared ${picked.length} Quick Auto-Save exception${picked.length === 1 ? '' : 's'}`);
+}
+
+/**
+ * Lists scratch files, newest first, to reopen or delete, and offers the age-based cleanup.
+ */
+async function showScratchFiles() {
+    const maxAgeDays = getConfig().get('scratchMaxAgeDays', 30);
+    const files = await scratchFiles.list();
+    type ScratchItem = vscode.QuickPickItem & { file?: ScratchFile; cleanup?: boolean };
+    const items: ScratchItem[] = files.map(file => ({
+        label: file.name,
+        description: new Date(file.mtime).toLocaleString(),
+        detail: `${Math.max(1, Math.round(file.size / 1024))} KB`,
+        file
+    }));
+    if (maxAgeDays > 0 && files.length > 0) {
+        items.push({ label: `$(trash) Delete Files Older Than ${maxAgeDays} Days`, cleanup: true });
+    }
+
+    if (items.length === 0) {
+        vscode.window.showInformationMessage(`No scratch files in ${scratchFiles.directory.fsPath}`);
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `Scratch files in ${scratchFiles.directory.fsPath}`,
+        matchOnDescription: true
+    });
+    if (picked?.cleanup) {
+        const deleted = await scratchFiles.cleanup(maxAgeDays);
+        vscode.window.showInformationMessage(`Deleted ${deleted} scratch file${deleted === 1 ? '' : 's'}`);
+        return;
+    }
+    if (!picked?.file) {
+        return;
+    }
+
+    const action = await vscode.window.showQuickPick(['Open', 'Delete'], { placeHolder: picked.file.name });
+    if (action === 'Open') {
+        await vscode.window.showTextDocument(picked.file.uri, { preview: false });
+    } else if (action === 'Delete') {
+        await scratchFiles.delete([picked.file.uri]);
+    }
+}
+
+/**
+ * Lists the recorded saves, skips and failures of a file, newest first. This is the
+ * same history the Save History view shows for the active editor.
+ */
+async function showSaveHistory(uri: vscode.Uri) {
+    const name = uri.scheme === 'file' ? vscode.workspace.asRelativePath(uri, true) : path.basename(uri.path);
+    const entries = saveTimeline.getEntries(uri);
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage(`Quick Auto-Save: No saves of ${name} recorded yet.`);
+        return;
+    }
+
+    const icons = { saved: '$(save)', skipped: '$(debug-step-over)', failed: '$(error)' };
+    const picked = await vscode.window.showQuickPick(entries.map(entry => ({
+        label: `${icons[entry.kind]} ${new Date(entry.timestamp).toLocaleString()}`,
+        description: describeEntry(entry),
+        id: entry.id
+    })), { placeHolder: `Save history of ${name}`, matchOnDescription: true });
+    if (picked) {
+        await saveTimeline.showDetails(uri, picked.id);
+    }
+}
+
 function clearAllTimeouts(reason: string = 'Unknown') {
     try {
         const timeoutCount = saveTimeouts.size;
@@ -595,6 +2299,13 @@ function validateConfiguration() {
             vscode.window.showWarningMessage('Quick Auto-Save: Invalid save delay. Should be between 50-10000ms.');
         }
 
+        // Validate delay mode
+        const delayMode = config.get('delayMode', 'fixed');
+        if (!isDelayMode(delayMode)) {
+            logger.warn('Invalid delay mode configuration', { delayMode, validValues: DELAY_MODES });
+            vscode.window.showWarningMessage(`Quick Auto-Save: Invalid delay mode "${delayMode}". Should be one of ${DELAY_MODES.join(', ')}; using fixed.`);
+        }
+
         // Validate file size limit
         const maxFileSize = config.get('maxFileSizeKB', 1024);
         if (maxFileSize < 1 || maxFileSize > 10240) {
@@ -611,6 +2322,45 @@ function validateConfiguration() {
             vscode.window.showWarningMessage('Quick Auto-Save: File type filters must be arrays.');
         }
 
+        // Validate glob filters
+        const include = config.get('include', []);
+        const exclude = config.get('exclude', []);
+
+        if (!Array.isArray(include) || !Array.isArray(exclude)) {
+            logger.warn('Invalid glob filter configuration', { include, exclude });
+            vscode.window.showWarningMessage('Quick Auto-Save: Include and exclude patterns must be arrays.');
+        }
+
+        // Validate override rules
+        const overrides: OverrideRule[] = config.get('overrides', []);
+        if (!Array.isArray(overrides)) {
+            logger.warn('Invalid overrides configuration', { overrides });
+            vscode.window.showWarningMessage('Quick Auto-Save: Overrides must be an array of rules.');
+        } else {
+            overrides.forEach((rule, index) => {
+                const problem = validateOverrideRule(rule);
+                if (problem) {
+                    logger.warn('Invalid override rule', { index, rule, problem });
+                    vscode.window.showWarningMessage(`Quick Auto-Save: Override rule ${index + 1} ${problem} and will be ignored.`);
+                }
+            });
+        }
+
+        // Validate post-save actions
+        const postSaveRules: PostSaveActionRule[] = config.get('postSaveActions', []);
+        if (!Array.isArray(postSaveRules)) {
+            logger.warn('Invalid postSaveActions configuration', { type: typeof postSaveRules });
+            vscode.window.showWarningMessage('Quick Auto-Save: Post-save actions must be an array of rules.');
+        } else {
+            postSaveRules.forEach((rule, index) => {
+                const problem = validatePostSaveActionRule(rule);
+                if (problem) {
+                    logger.warn('Invalid post-save action', { index, rule: redactPostSaveActionRule(rule), problem });
+                    vscode.window.showWarningMessage(`Quick Auto-Save: Post-save action ${index + 1} ${problem} and will be ignored.`);
+                }
+            });
+        }
+
         logger.debug('Configuration validation completed');
     } catch (error) {
         logger.error('Error validating configuration', error instanceof Error ? error : new Error(String(error)));
@@ -621,15 +2371,17 @@ function startHealthMonitoring() {
     try {
         // Check for stale timeouts every 30 seconds
         healthCheckInterval = setInterval(() => {
-            if (isDisposing) return;
+            if (isDisposing) {
+                return;
+            }
             
             try {
                 const now = Date.now();
                 const staleTimeouts: string[] = [];
                 
                 saveTimeouts.forEach((saveTimeout, uri) => {
-                    // Consider timeout stale if it's older than 5 minutes
-                    if (now - saveTimeout.createdAt > 300000) {
+                    // Consider timeout stale if it's older than 5 minutes; deferred saves wait for their suspension
+                    if (now - saveTimeout.createdAt > 300000 && !saveTimeout.suspendedTrigger) {
                         staleTimeouts.push(uri);
                     }
                 });
@@ -658,38 +2410,182 @@ function startHealthMonitoring() {
     }
 }
 
-function showSaveStatistics() {
-    try {
-        const sessionDuration = Math.round((Date.now() - saveStats.sessionStartTime) / 1000 / 60); // minutes
-        const successRate = saveStats.totalSaves > 0 ? (saveStats.successfulSaves / saveStats.totalSaves * 100).toFixed(1) : '0';
-        const avgSavesPerMinute = sessionDuration > 0 ? (saveStats.totalSaves / sessionDuration).toFixed(1) : '0';
-        
-        const message = `Quick Auto-Save Statistics:
-• Session Duration: ${sessionDuration} minutes
-• Total Saves: ${saveStats.totalSaves}
-• Successful: ${saveStats.successfulSaves}
-• Failed: ${saveStats.failedSaves}
-• Success Rate: ${successRate}%
-• Average Saves/Minute: ${avgSavesPerMinute}
-• Active Timeouts: ${saveTimeouts.size}
-• Last Save: ${saveStats.lastSaveTime > 0 ? new Date(saveStats.lastSaveTime).toLocaleTimeString() : 'Never'}`;
-
-        vscode.window.showInformationMessage(message, { modal: true });
-        logger.info('Statistics displayed to user', {
-            sessionDuration,
-            totalSaves: saveStats.totalSaves,
-            successRate: parseFloat(successRate),
-            activeTimeouts: saveTimeouts.size
+function getSchemeSettings(scope: vscode.Uri | AutoSaveDocument): SchemePolicySettings {
+    const config = getConfig(scope);
+    return {
+        allowedSchemes: config.get('allowedSchemes', []),
+        deniedSchemes: config.get('deniedSchemes', DEFAULT_DENIED_SCHEMES),
+        schemeDelays: config.get('schemeDelays', {}),
+        slowSaveThresholdMs: Math.max(0, config.get('slowSaveThresholdMs', 250))
+    };
+}
+
+function getSnapshotLimits(uri: vscode.Uri): SnapshotLimits {
+    const config = getConfig(uri);
+    return {
+        maxPerFile: Math.max(1, config.get('snapshotMaxPerFile', 20)),
+        maxAgeDays: Math.max(1, config.get('snapshotMaxAgeDays', 7)),
+        maxTotalMB: Math.max(1, config.get('snapshotMaxTotalMB', 50))
+    };
+}
+
+async function getDocumentForCommand(uri?: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+    if (uri) {
+        return vscode.workspace.openTextDocument(uri);
+    }
+
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document) {
+        vscode.window.showInformationMessage('Quick Auto-Save: Open a file first.');
+    }
+    return document;
+}
+
+async function pickSnapshot(document: vscode.TextDocument): Promise<SnapshotEntry | undefined> {
+    const snapshots = await snapshotStore.getSnapshots(document.uri);
+    if (snapshots.length === 0) {
+        vscode.window.showInformationMessage(`Quick Auto-Save: No snapshots of ${path.basename(document.fileName)} yet.`);
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(snapshots.map(entry => ({
+        label: new Date(entry.timestamp).toLocaleString(),
+        description: `${(entry.size / 1024).toFixed(1)} KB`,
+        detail: entry.hash.slice(0, 12),
+        entry
+    })), { placeHolder: `Snapshots of ${path.basename(document.fileName)}` });
+
+    return picked?.entry;
+}
+
+async function compareSnapshot(document: vscode.TextDocument, entry: SnapshotEntry) {
+    const fileName = path.basename(document.fileName);
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        snapshotStore.getSnapshotUri(document.uri, entry),
+        document.uri,
+        `${fileName} (${new Date(entry.timestamp).toLocaleString()}) ↔ Current`
+    );
+}
+
+async function restoreSnapshot(document: vscode.TextDocument, entry: SnapshotEntry) {
+    const content = Buffer.from(await snapshotStore.readSnapshot(entry)).toString('utf8');
+
+    // Replace the buffer rather than the file on disk so the restore can be undone
+    const edit = new vscode.WorkspaceEdit();
+    const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+    edit.replace(document.uri, fullRange, content);
+    await vscode.workspace.applyEdit(edit);
+
+    logger.info('Snapshot restored', { uri: document.uri.toString(), hash: entry.hash, timestamp: entry.timestamp });
+    vscode.window.showInformationMessage(`Restored ${path.basename(document.fileName)} from ${new Date(entry.timestamp).toLocaleString()}`);
+}
+
+async function exportStatistics() {
+    const format = await vscode.window.showQuickPick(['JSON', 'CSV'], { placeHolder: 'Export statistics history as' });
+    if (!format) {
+        return;
+    }
+
+    const extension = format === 'JSON' ? 'json' : 'csv';
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `quick-auto-save-stats.${extension}`;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, fileName) : undefined,
+        filters: { [format]: [extension] }
+    });
+    if (!target) {
+        return;
+    }
+
+    const content = format === 'JSON' ? JSON.stringify(statsHistory.toJSON(), null, 2) : statsHistory.toCSV();
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+
+    logger.info('Statistics exported', { target: target.toString(), format });
+    vscode.window.showInformationMessage(`Quick Auto-Save statistics exported to ${path.basename(target.fsPath)}`);
+}
+
+/**
+ * Writes recent log records together with the current settings to a JSON file that
+ * can be attached to a bug report. Paths, post-save shell commands and command
+ * arguments in the settings are redacted.
+ */
+async function exportLogs(context: vscode.ExtensionContext) {
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = 'quick-auto-save-logs.json';
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, fileName) : undefined,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        filters: { JSON: ['json'] }
+    });
+    if (!target) {
+        return;
+    }
+
+    const config = JSON.parse(JSON.stringify(vscode.workspace.getConfiguration('quickAutoSave')));
+    if (Array.isArray(config.postSaveActions)) {
+        config.postSaveActions = config.postSaveActions.map(redactPostSaveActionRule);
+    }
+    const records = await logger.getRecentRecords(MAX_EXPORTED_LOG_RECORDS);
+    const bundle = {
+        exportedAt: new Date().toISOString(),
+        extensionVersion: context.extension.packageJSON.version,
+        vscodeVersion: vscode.version,
+        platform: process.platform,
+        loggingToFile: logger.isLoggingToFile,
+        config: redactPaths(config),
+        session: saveStats,
+        records
+    };
+    await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(bundle, null, 2), 'utf8'));
+
+    logger.info('Logs exported', { target: target.toString(), records: records.length });
+    vscode.window.showInformationMessage(`Quick Auto-Save logs exported to ${path.basename(target.fsPath)}`);
+}
+
+// Replaces workspace folder and home directory paths in setting values
+function redactPaths(value: unknown): unknown {
+    if (typeof value === 'string') {
+        let redacted = value;
+        vscode.workspace.workspaceFolders?.forEach(folder => {
+            redacted = redacted.split(folder.uri.fsPath).join('${workspaceFolder}');
         });
-    } catch (error) {
-        logger.error('Error showing statistics', error instanceof Error ? error : new Error(String(error)));
-        vscode.window.showErrorMessage('Failed to display statistics');
+        const home = os.homedir();
+        return home ? redacted.split(home).join('~') : redacted;
+    }
+    if (Array.isArray(value)) {
+        return value.map(redactPaths);
     }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactPaths(item)]));
+    }
+    return value;
 }
 
-function getConfig() {
+/**
+ * Returns the cached settings. With a URI or notebook they are resolved for the
+ * workspace folder containing it; with a text document, also for its language.
+ */
+function getConfig(scope?: vscode.Uri | AutoSaveDocument): vscode.WorkspaceConfiguration {
     try {
-        return vscode.workspace.getConfiguration('quickAutoSave');
+        if (scope) {
+            const uri = scope instanceof vscode.Uri ? scope : scope.uri;
+            const languageId = scope instanceof vscode.Uri || isNotebook(scope) ? undefined : scope.languageId;
+            // Resource settings can only differ between workspace folders, so one entry per folder and language
+            const folder = vscode.workspace.getWorkspaceFolder(uri);
+            const key = `${folder?.uri.toString() ?? ''}|${languageId ?? ''}`;
+            let config = scopedConfigs.get(key);
+            if (!config) {
+                config = vscode.workspace.getConfiguration('quickAutoSave', languageId ? { uri: folder?.uri, languageId } : folder?.uri);
+                scopedConfigs.set(key, config);
+            }
+            return config;
+        }
+
+        if (!cachedConfig) {
+            cachedConfig = vscode.workspace.getConfiguration('quickAutoSave');
+        }
+        return cachedConfig;
     } catch (error) {
         logger.error('Error getting configuration', error instanceof Error ? error : new Error(String(error)));
         // Return a mock config object to prevent crashes
@@ -702,15 +2598,56 @@ function getConfig() {
     }
 }
 
-function isEnabled(): boolean {
+function refreshConfig() {
+    cachedConfig = undefined;
+    scopedConfigs.clear();
+    profileCache.clear();
+}
+
+function getSaveProfile(document: AutoSaveDocument): SaveProfile {
+    const target = toProfileTarget(document);
+    const key = `${target.uri.toString()}|${target.languageId}`;
+    let profile = profileCache.get(key);
+    if (!profile) {
+        profile = resolveSaveProfile(target, getConfig(document), fileFilter);
+        profileCache.set(key, profile);
+    }
+    return profile;
+}
+
+function elapsedSince(start: number): number {
+    return Math.round((performance.now() - start) * 1000) / 1000;
+}
+
+/**
+ * Without a URI, whether auto-save is enabled for the workspace. With one, whether it
+ * is enabled for that document's workspace folder and not turned off by an exception.
+ */
+function isEnabled(uri?: vscode.Uri): boolean {
     try {
-        return getConfig().get('enabled', true);
+        if (!uri) {
+            return getConfig().get('enabled', true);
+        }
+        return getConfig(uri).get('enabled', true) && !exceptions.isDisabled(uri);
     } catch (error) {
         logger.error('Error checking if extension is enabled', error instanceof Error ? error : new Error(String(error)));
         return false;
     }
 }
 
+/**
+ * The document the status bar describes: the active editor's, or the notebook when a
+ * notebook editor or one of its cells is focused.
+ */
+function getActiveDocument(): AutoSaveDocument | undefined {
+    const document = vscode.window.activeTextEditor?.document;
+    const notebook = vscode.window.activeNotebookEditor?.notebook;
+    if (notebook && (!document || document.uri.scheme === NOTEBOOK_CELL_SCHEME)) {
+        return notebook;
+    }
+    return document;
+}
+
 function updateStatusBar() {
     try {
         if (!statusBarItem) {
@@ -720,29 +2657,65 @@ function updateStatusBar() {
 
         if (!getConfig().get('showStatusBar', true)) {
             statusBarItem.hide();
+            setStatusBarTicking(false);
             return;
         }
 
         const enabled = isEnabled();
-        const pendingSaves = saveTimeouts.size;
+        const document = getActiveDocument();
+        const pendingSaves = saveTimeouts.size + notebookSaver.pendingCount;
+        let heldSaves = 0;
+        saveTimeouts.forEach(saveTimeout => {
+            if (saveTimeout.held) {
+                heldSaves++;
+            }
+        });
         const successRate = saveStats.totalSaves > 0 ? Math.round((saveStats.successfulSaves / saveStats.totalSaves) * 100) : 100;
-        
-        if (enabled) {
-            statusBarItem.text = `$(save) Quick Save${pendingSaves > 0 ? ` (${pendingSaves})` : ''}`;
-            statusBarItem.tooltip = `Quick Auto-Save: Active
-Files saved: ${saveStats.successfulSaves}
+        const summary = `Files saved: ${saveStats.successfulSaves}
 Success rate: ${successRate}%
 Pending saves: ${pendingSaves}
-Click to toggle`;
-            statusBarItem.color = undefined;
-            statusBarItem.backgroundColor = undefined;
-        } else {
+Held (errors): ${heldSaves}
+Click for options`;
+        const suspended = document ? suspensions.isSuspendedFor(document.uri) : suspensions.hasSuspensions;
+        let ticking = false;
+
+        statusBarItem.color = undefined;
+        statusBarItem.backgroundColor = undefined;
+
+        if (!enabled) {
             statusBarItem.text = "$(save) Quick Save (Off)";
-            statusBarItem.tooltip = "Quick Auto-Save: Disabled\nClick to enable";
+            statusBarItem.tooltip = "Quick Auto-Save: Disabled\nClick for options";
             statusBarItem.color = new vscode.ThemeColor('statusBarItem.warningForeground');
             statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else if (suspended) {
+            const active = suspensions.getActive(document?.uri);
+            const snoozeEnd = active.find(suspension => suspension.source === 'snooze')?.until;
+            const label = snoozeEnd !== undefined ? `Snoozed ${formatRemaining(snoozeEnd)}`
+                : active.some(suspension => suspension.source === 'snooze') ? 'Snoozed'
+                : active[0].source === 'git' ? active[0].reason : 'Suspended';
+            const icon = { debug: '$(debug)', snooze: '$(clock)', git: '$(git-merge)', task: '$(debug-pause)', api: '$(debug-pause)' }[active[0].source];
+            statusBarItem.text = `${icon} Quick Save (${label}${pendingSaves > 0 ? `, ${pendingSaves}` : ''})`;
+            statusBarItem.tooltip = `Quick Auto-Save: Suspended
+${active.map(suspension => `- ${describeSuspension(suspension)}`).join('\n')}
+
+${summary}`;
+            ticking = snoozeEnd !== undefined;
+        } else if (document) {
+            const status = describeEditorStatus(document);
+            statusBarItem.text = status.text;
+            statusBarItem.tooltip = `Quick Auto-Save: ${status.tooltip}\n\n${summary}`;
+            if (status.failed) {
+                statusBarItem.color = new vscode.ThemeColor('statusBarItem.errorForeground');
+                statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+            }
+            ticking = status.ticking;
+        } else {
+            const heldMarker = heldSaves > 0 ? `, $(warning) ${heldSaves} held` : '';
+            statusBarItem.text = `$(save) Quick Save${pendingSaves > 0 ? ` (${pendingSaves}${heldMarker})` : ''}`;
+            statusBarItem.tooltip = `Quick Auto-Save: Active\n${summary}`;
         }
-        
+
+        setStatusBarTicking(ticking);
         statusBarItem.show();
         
     } catch (error) {
@@ -750,6 +2723,103 @@ Click to toggle`;
     }
 }
 
+function setStatusBarTicking(ticking: boolean) {
+    if (ticking && !statusBarTicker) {
+        statusBarTicker = setInterval(updateStatusBar, 500);
+    } else if (!ticking && statusBarTicker) {
+        clearInterval(statusBarTicker);
+        statusBarTicker = undefined;
+    }
+}
+
+interface EditorStatus {
+    text: string;
+    tooltip: string;
+    failed: boolean;
+    // The text contains a countdown that needs refreshing
+    ticking: boolean;
+}
+
+/**
+ * Describes the auto-save state of the active document for the status bar.
+ */
+function describeEditorStatus(document: AutoSaveDocument): EditorStatus {
+    const uri = document.uri.toString();
+    const fileName = path.basename(document.uri.path) || 'Untitled';
+
+    const failedSave = retryQueue.getAll().find(entry => entry.uri === uri);
+    if (failedSave) {
+        return {
+            text: '$(error) Save failed',
+            tooltip: `${fileName} failed to save: ${failedSave.lastError}${failedSave.stopped ? '\nAuto-save is stopped for this file' : ''}`,
+            failed: true,
+            ticking: false
+        };
+    }
+
+    const saveTimeout = saveTimeouts.get(uri);
+    if (saveTimeout?.held) {
+        return { text: '$(warning) Held (errors)', tooltip: `${fileName} is saved once its errors are fixed`, failed: false, ticking: false };
+    }
+    const pendingNotebook = notebookSaver.getPending(uri);
+    const due = saveTimeout?.timeout ? { dueAt: saveTimeout.createdAt + saveTimeout.delay, reason: saveTimeout.delayReason }
+        : pendingNotebook?.timeout ? { dueAt: pendingNotebook.dueAt, reason: pendingNotebook.delayReason }
+        : undefined;
+    if (due) {
+        const remaining = Math.max(0, due.dueAt - Date.now());
+        return {
+            text: `$(clock) Saving in ${(remaining / 1000).toFixed(1)}s`,
+            tooltip: `${fileName} will be saved in ${(remaining / 1000).toFixed(1)}s (${due.reason})`,
+            failed: false,
+            ticking: true
+        };
+    }
+
+    const [exclusion] = evaluateAutoSave(document, { ignoreDirty: true }).failed;
+    if (exclusion) {
+        return { text: `$(circle-slash) ${getStatusLabel(exclusion)}`, tooltip: `${fileName} is not auto-saved: ${exclusion.detail}`, failed: false, ticking: false };
+    }
+
+    if (document.isDirty) {
+        return { text: '$(circle-filled) Unsaved', tooltip: `${fileName} has unsaved changes`, failed: false, ticking: false };
+    }
+    return { text: '$(check) Saved', tooltip: `${fileName} is saved`, failed: false, ticking: false };
+}
+
+/**
+ * Quick pick opened from the status bar item.
+ */
+async function showControlMenu() {
+    const document = getActiveDocument();
+    const enabled = isEnabled();
+    const items: (vscode.QuickPickItem & { command: string; args?: unknown[] })[] = [
+        { label: enabled ? '$(circle-slash) Disable Quick Auto-Save' : '$(check) Enable Quick Auto-Save', command: 'quickAutoSave.toggle' },
+        { label: '$(clock) Snooze...', command: 'quickAutoSave.snooze' },
+        { label: '$(save-all) Save All Files Now', command: 'quickAutoSave.saveNow' }
+    ];
+    if (document && !document.isUntitled) {
+        const excepted = exceptions.has(document.uri);
+        items.push({
+            label: excepted ? '$(add) Include This File' : '$(remove) Exclude This File',
+            description: path.basename(document.uri.path),
+            command: 'quickAutoSave.toggleResource',
+            args: [document.uri]
+        });
+    }
+    if (document) {
+        items.push({ label: '$(question) Why Isn\'t This File Auto-Saving?', command: 'quickAutoSave.explain' });
+    }
+    items.push(
+        { label: '$(graph) Show Statistics', command: 'quickAutoSave.showStats' },
+        { label: '$(output) Show Logs', command: 'quickAutoSave.showLogs' }
+    );
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Quick Auto-Save' });
+    if (picked) {
+        await vscode.commands.executeCommand(picked.command, ...(picked.args ?? []));
+    }
+}
+
 function cleanup() {
     try {
         isDisposing = true;
@@ -763,6 +2833,22 @@ function cleanup() {
             clearInterval(healthCheckInterval);
             healthCheckInterval = undefined;
         }
+
+        // Stop the status bar countdown
+        if (statusBarTicker) {
+            clearInterval(statusBarTicker);
+            statusBarTicker = undefined;
+        }
+
+        // Stop timed save triggers
+        if (intervalTriggerTimer) {
+            clearInterval(intervalTriggerTimer);
+            intervalTriggerTimer = undefined;
+        }
+        if (idleTriggerTimer) {
+            clearTimeout(idleTriggerTimer);
+            idleTriggerTimer = undefined;
+        }
         
         // Dispose status bar
         if (statusBarItem) {
@@ -780,6 +2866,8 @@ function cleanup() {
     }
 }
 
-export function deactivate() {
+export async function deactivate() {
+    // VS Code waits for this; disposing the history only drops its pending flush
+    await statsHistory?.flush();
     cleanup();
 }
\ No newline at end of file
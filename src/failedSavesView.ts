@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { FailedSave, RetryQueue } from './retryQueue';
+
+/**
+ * Tree data for the "Failed Saves" view: one item per document in the retry queue.
+ */
+export class FailedSavesProvider implements vscode.TreeDataProvider<FailedSave>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<FailedSave | undefined>();
+    private subscription: vscode.Disposable;
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private retryQueue: RetryQueue, private retryLimit: (uri: string) => number) {
+        this.subscription = retryQueue.onDidChange(() => {
+            this.changeEmitter.fire(undefined);
+            vscode.commands.executeCommand('setContext', 'quickAutoSave.hasFailedSaves', retryQueue.size > 0);
+        });
+    }
+
+    getTreeItem(entry: FailedSave): vscode.TreeItem {
+        const item = new vscode.TreeItem(entry.fileName, vscode.TreeItemCollapsibleState.None);
+        const uri = vscode.Uri.parse(entry.uri);
+
+        item.id = entry.uri;
+        item.resourceUri = uri;
+        item.description = describe(entry, this.retryLimit(entry.uri));
+        // Plain text, since error messages can contain file paths and Markdown characters
+        item.tooltip = [
+            entry.fileName,
+            `Last error: ${entry.lastError}`,
+            `Kind: ${entry.kind}`,
+            `Retries: ${entry.retryCount}`,
+            `First failed: ${new Date(entry.firstFailedAt).toLocaleString()}`,
+            entry.nextRetryAt ? `Next retry: ${new Date(entry.nextRetryAt).toLocaleTimeString()}` : undefined
+        ].filter(line => line !== undefined).join('\n');
+        item.iconPath = new vscode.ThemeIcon(entry.stopped ? 'circle-slash' : entry.kind === 'permanent' ? 'error' : 'sync');
+        item.contextValue = entry.stopped ? 'failedSave.stopped' : 'failedSave';
+        item.command = { command: 'quickAutoSave.openFailedSave', title: 'Open File', arguments: [entry] };
+
+        return item;
+    }
+
+    getChildren(element?: FailedSave): FailedSave[] {
+        return element ? [] : this.retryQueue.getAll();
+    }
+
+    dispose() {
+        this.subscription.dispose();
+        this.changeEmitter.dispose();
+    }
+}
+
+function describe(entry: FailedSave, retryLimit: number): string {
+    if (entry.stopped) {
+        return 'auto-save stopped';
+    }
+    const parts = [entry.kind === 'permanent' ? 'permanent' : `retry ${entry.retryCount}/${retryLimit}`, entry.lastError];
+    if (entry.nextRetryAt) {
+        parts.splice(1, 0, `next at ${new Date(entry.nextRetryAt).toLocaleTimeString()}`);
+    }
+    return parts.join(' · ');
+}
@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { IMinimatch, Minimatch } from 'minimatch';
+import { Logger } from './logger';
+
+const IGNORE_FILE_NAMES = ['.gitignore', '.ignore'];
+// Repository-local ignore rules, read for workspace folder roots only
+const GIT_EXCLUDE_FILE = '.git/info/exclude';
+
+export interface FileFilterConfig {
+    include: string[];
+    exclude: string[];
+    enabledFileTypes: string[];
+    excludedFileTypes: string[];
+}
+
+/**
+ * Decides which files are eligible for auto-save based on glob rules, the legacy
+ * extension lists and (optionally) the workspace's .gitignore/.ignore files.
+ *
+ * Globs are matched against the path relative to the owning workspace folder. Files
+ * outside any workspace folder are matched against their full path, so patterns
+ * starting with `**` still apply to them.
+ */
+export class FileFilter implements vscode.Disposable {
+    private matchers: Map<string, IMinimatch> = new Map();
+    // Parsed ignore rules keyed by directory path; null means the directory has no ignore files
+    private ignoreRules: Map<string, Ignore | null> = new Map();
+    // Per-document ignore-file results; include and exclude rules depend on the document's
+    // folder and language settings, so those are matched on every call
+    private ignoredCache: Map<string, boolean> = new Map();
+    private watcher: vscode.FileSystemWatcher;
+    private excludeWatcher: vscode.FileSystemWatcher;
+
+    constructor(private logger: Logger) {
+        this.watcher = vscode.workspace.createFileSystemWatcher(`**/{${IGNORE_FILE_NAMES.join(',')}}`);
+        this.excludeWatcher = vscode.workspace.createFileSystemWatcher(`**/${GIT_EXCLUDE_FILE}`);
+        // Rules are cached per directory; .git/info/exclude belongs to the folder containing .git
+        this.watch(this.watcher, uri => path.dirname(uri.fsPath));
+        this.watch(this.excludeWatcher, uri => path.resolve(path.dirname(uri.fsPath), '..', '..'));
+    }
+
+    /**
+     * Returns true when the file matches an `include` glob or an `enabledFileTypes`
+     * extension, or when neither list has any entries.
+     */
+    isIncluded(uri: vscode.Uri, config: FileFilterConfig): boolean {
+        if (config.include.length === 0 && config.enabledFileTypes.length === 0) {
+            return true;
+        }
+
+        const relativePath = this.getRelativePath(uri);
+        return config.enabledFileTypes.some(ext => hasExtension(relativePath, ext))
+            || config.include.some(pattern => this.getMatcher(pattern).match(relativePath));
+    }
+
+    /**
+     * Returns the first `exclude` glob or `excludedFileTypes` extension matching the
+     * file, or undefined when the file is not excluded.
+     */
+    findExcludingRule(uri: vscode.Uri, config: FileFilterConfig): string | undefined {
+        const relativePath = this.getRelativePath(uri);
+        return config.exclude.find(pattern => this.getMatcher(pattern).match(relativePath))
+            ?? config.excludedFileTypes.find(ext => hasExtension(relativePath, ext));
+    }
+
+    /**
+     * Returns true when the file's workspace-relative path matches the glob.
+     */
+    matchesGlob(uri: vscode.Uri, pattern: string): boolean {
+        return this.getMatcher(pattern).match(this.getRelativePath(uri));
+    }
+
+    /**
+     * Returns true when the file is ignored by a .gitignore/.ignore file in its
+     * workspace folder (or by .git/info/exclude). Rules in deeper directories take
+     * precedence, as they do in git.
+     */
+    isIgnoredByIgnoreFiles(uri: vscode.Uri): boolean {
+        if (uri.scheme !== 'file') {
+            return false;
+        }
+
+        const key = uri.toString();
+        let ignored = this.ignoredCache.get(key);
+        if (ignored === undefined) {
+            ignored = this.evaluateIgnoreFiles(uri);
+            this.ignoredCache.set(key, ignored);
+        }
+        return ignored;
+    }
+
+    /**
+     * Drops cached matchers, ignore rules and results, e.g. after a configuration change.
+     */
+    refresh() {
+        this.matchers.clear();
+        this.ignoreRules.clear();
+        this.ignoredCache.clear();
+    }
+
+    dispose() {
+        this.watcher.dispose();
+        this.excludeWatcher.dispose();
+        this.refresh();
+    }
+
+    private watch(watcher: vscode.FileSystemWatcher, getDirectory: (uri: vscode.Uri) => string) {
+        const invalidate = (uri: vscode.Uri) => {
+            this.ignoreRules.delete(getDirectory(uri));
+            this.ignoredCache.clear();
+            this.logger.debug('Ignore file changed, rules invalidated', { uri: uri.toString() });
+        };
+        watcher.onDidChange(invalidate);
+        watcher.onDidCreate(invalidate);
+        watcher.onDidDelete(invalidate);
+    }
+
+    private evaluateIgnoreFiles(uri: vscode.Uri): boolean {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder) {
+            return false;
+        }
+
+        const root = folder.uri.fsPath;
+        const relativeToRoot = path.relative(root, uri.fsPath);
+        if (!relativeToRoot || relativeToRoot.startsWith('..')) {
+            return false;
+        }
+
+        // Collect the directories from the file's parent up to the workspace root
+        const directories: string[] = [];
+        let current = path.dirname(uri.fsPath);
+        while (current.length >= root.length) {
+            directories.push(current);
+            if (current === root) {
+                break;
+            }
+            current = path.dirname(current);
+        }
+
+        for (const directory of directories) {
+            const rules = this.getIgnoreRules(directory, directory === root);
+            if (!rules) {
+                continue;
+            }
+
+            const result = rules.test(toPosix(path.relative(directory, uri.fsPath)));
+            if (result.ignored) {
+                return true;
+            }
+            if (result.unignored) {
+                return false;
+            }
+        }
+
+        return false;
+    }
+
+    private getRelativePath(uri: vscode.Uri): string {
+        return toPosix(vscode.workspace.asRelativePath(uri, false));
+    }
+
+    private getMatcher(pattern: string): IMinimatch {
+        let matcher = this.matchers.get(pattern);
+        if (!matcher) {
+            matcher = new Minimatch(pattern, { dot: true });
+            this.matchers.set(pattern, matcher);
+        }
+        return matcher;
+    }
+
+    private getIgnoreRules(directory: string, isRoot: boolean): Ignore | null {
+        if (this.ignoreRules.has(directory)) {
+            return this.ignoreRules.get(directory) ?? null;
+        }
+
+        const fileNames = isRoot ? [GIT_EXCLUDE_FILE, ...IGNORE_FILE_NAMES] : IGNORE_FILE_NAMES;
+        let rules: Ignore | null = null;
+
+        for (const fileName of fileNames) {
+            const filePath = path.join(directory, fileName);
+            try {
+                const content = fs.readFileSync(filePath, 'utf8');
+                rules = (rules ?? ignore()).add(content);
+                this.logger.debug('Loaded ignore file', { filePath });
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT' && (error as NodeJS.ErrnoException).code !== 'ENOTDIR') {
+                    this.logger.warn('Failed to read ignore file', { filePath, error: String(error) });
+                }
+            }
+        }
+
+        this.ignoreRules.set(directory, rules);
+        return rules;
+    }
+}
+
+/**
+ * Extension lists are shorthand for globs matching any file ending in that extension.
+ * Matching on the end of the file name lets multi-part extensions such as `.d.ts` or `.spec.ts` work too.
+ */
+function hasExtension(filePath: string, extension: string): boolean {
+    const normalized = (extension.startsWith('.') ? extension : `.${extension}`).toLowerCase();
+    return path.posix.basename(filePath).toLowerCase().endsWith(normalized);
+}
+
+function toPosix(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
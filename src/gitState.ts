@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger';
+import { Suspension, SuspensionManager } from './suspension';
+
+// Files and directories git keeps in its directory while an operation is in progress
+const GIT_OPERATION_MARKERS: { marker: string; operation: string }[] = [
+    { marker: 'rebase-merge', operation: 'Rebase' },
+    { marker: 'rebase-apply', operation: 'Rebase' },
+    { marker: 'REBASE_HEAD', operation: 'Rebase' },
+    { marker: 'MERGE_HEAD', operation: 'Merge' },
+    { marker: 'CHERRY_PICK_HEAD', operation: 'Cherry-pick' }
+];
+
+const CONFLICT_START = '<<<<<<<';
+const CONFLICT_END = '>>>>>>>';
+
+interface WatchedRepository {
+    root: string;
+    gitDir: string;
+    watcher: vscode.FileSystemWatcher;
+    folders: Set<string>;
+    operation?: string;
+    suspension?: Suspension;
+}
+
+/**
+ * Watches the git directory of every workspace folder and suspends auto-save for a
+ * repository while a merge, rebase or cherry-pick is in progress.
+ */
+export class GitOperationWatcher implements vscode.Disposable {
+    // Keyed by git directory, since several workspace folders can share a repository
+    private repositories: Map<string, WatchedRepository> = new Map();
+
+    constructor(private suspensions: SuspensionManager, private isEnabled: () => boolean, private logger: Logger) {}
+
+    addFolders(folders: readonly vscode.WorkspaceFolder[]) {
+        folders.filter(folder => folder.uri.scheme === 'file').forEach(folder => {
+            const location = findGitDirectory(folder.uri.fsPath);
+            if (!location) {
+                return;
+            }
+
+            let repository = this.repositories.get(location.gitDir);
+            if (!repository) {
+                const watcher = vscode.workspace.createFileSystemWatcher(
+                    new vscode.RelativePattern(location.gitDir, `{${GIT_OPERATION_MARKERS.map(entry => entry.marker).join(',')}}`)
+                );
+                const newRepository: WatchedRepository = { ...location, watcher, folders: new Set() };
+                const check = () => this.evaluate(newRepository);
+                watcher.onDidCreate(check);
+                watcher.onDidDelete(check);
+                this.repositories.set(location.gitDir, newRepository);
+                repository = newRepository;
+                this.logger.debug('Watching git directory', { gitDir: location.gitDir, root: location.root });
+            }
+
+            repository.folders.add(folder.uri.toString());
+            this.evaluate(repository);
+        });
+    }
+
+    removeFolders(folders: readonly vscode.WorkspaceFolder[]) {
+        folders.forEach(folder => {
+            this.repositories.forEach((repository, gitDir) => {
+                if (repository.folders.delete(folder.uri.toString()) && repository.folders.size === 0) {
+                    this.unwatch(repository);
+                    this.repositories.delete(gitDir);
+                }
+            });
+        });
+    }
+
+    /**
+     * Re-checks every repository, e.g. after the setting changed.
+     */
+    refresh() {
+        this.repositories.forEach(repository => this.evaluate(repository));
+    }
+
+    dispose() {
+        this.repositories.forEach(repository => this.unwatch(repository));
+        this.repositories.clear();
+    }
+
+    private evaluate(repository: WatchedRepository) {
+        const operation = this.isEnabled() ? detectOperation(repository.gitDir) : undefined;
+        if (operation === repository.operation) {
+            return;
+        }
+
+        if (repository.suspension) {
+            this.suspensions.release(repository.suspension.id);
+            repository.suspension = undefined;
+        }
+        repository.operation = operation;
+
+        if (operation) {
+            repository.suspension = this.suspensions.suspend('git', `${operation} in progress`, {
+                scope: vscode.Uri.file(repository.root)
+            });
+        }
+    }
+
+    private unwatch(repository: WatchedRepository) {
+        repository.watcher.dispose();
+        if (repository.suspension) {
+            this.suspensions.release(repository.suspension.id);
+        }
+    }
+}
+
+/**
+ * Finds the repository containing `folder`, following `.git` files used by worktrees
+ * and submodules to the actual git directory.
+ */
+function findGitDirectory(folder: string): { root: string; gitDir: string } | undefined {
+    let current = folder;
+    while (true) {
+        const dotGit = path.join(current, '.git');
+        try {
+            const stat = fs.statSync(dotGit);
+            if (stat.isDirectory()) {
+                return { root: current, gitDir: dotGit };
+            }
+            const match = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(dotGit, 'utf8'));
+            if (match) {
+                return { root: current, gitDir: path.resolve(current, match[1].trim()) };
+            }
+        } catch {
+            // No .git here, keep looking in the parent directory
+        }
+
+        const parent = path.dirname(current);
+        if (parent === current) {
+            return undefined;
+        }
+        current = parent;
+    }
+}
+
+function detectOperation(gitDir: string): string | undefined {
+    return GIT_OPERATION_MARKERS.find(entry => fs.existsSync(path.join(gitDir, entry.marker)))?.operation;
+}
+
+const conflictCache: WeakMap<vscode.TextDocument, { version: number; hasMarkers: boolean }> = new WeakMap();
+
+/**
+ * True if the document contains both a `<<<<<<<` and a `>>>>>>>` conflict marker line.
+ * Looks at line starts only, so `=======` underlines in Markdown don't count.
+ */
+export function hasConflictMarkers(document: vscode.TextDocument): boolean {
+    const cached = getCachedConflictMarkers(document);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    let sawStart = false;
+    let hasMarkers = false;
+    for (let line = 0; line < document.lineCount; line++) {
+        const text = document.lineAt(line).text;
+        // Cheap first-character check before comparing the marker
+        if (text.length < 7 || (text.charCodeAt(0) !== 60 && text.charCodeAt(0) !== 62)) {
+            continue;
+        }
+        if (!sawStart && text.startsWith(CONFLICT_START)) {
+            sawStart = true;
+        } else if (sawStart && text.startsWith(CONFLICT_END)) {
+            hasMarkers = true;
+            break;
+        }
+    }
+
+    conflictCache.set(document, { version: document.version, hasMarkers });
+    return hasMarkers;
+}
+
+/**
+ * The result of the last scan if the document hasn't changed since, without scanning.
+ */
+export function getCachedConflictMarkers(document: vscode.TextDocument): boolean | undefined {
+    const cached = conflictCache.get(document);
+    return cached && cached.version === document.version ? cached.hasMarkers : undefined;
+}
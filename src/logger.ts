@@ -0,0 +1,277 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+// Structured context attached to a log record, e.g. { uri, reason, saveTimeMs }
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+    timestamp: string;
+    level: LogLevel;
+    message: string;
+    fields?: LogFields;
+    error?: { message: string; stack?: string };
+}
+
+export interface Logger {
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, error?: Error, fields?: LogFields): void;
+    debug(message: string, fields?: LogFields): void;
+    trace(message: string, fields?: LogFields): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug', 'trace'];
+const LOG_FILE_NAME = 'quick-auto-save';
+const LOG_FILE_EXTENSION = '.jsonl';
+// Records kept in memory for export when no log file is written
+const MAX_RECENT_RECORDS = 2000;
+
+export class QuickAutoSaveLogger implements Logger {
+    private outputChannel: vscode.OutputChannel;
+    private level: LogLevel = 'info';
+    private recentRecords: LogRecord[] = [];
+    private logFile: LogFile | undefined;
+
+    /**
+     * @param logDirectory Where the JSON-lines log file is written when `logToFile` is on
+     */
+    constructor(private logDirectory?: vscode.Uri) {
+        this.outputChannel = vscode.window.createOutputChannel('Quick Auto-Save');
+        this.updateConfiguration();
+    }
+
+    /**
+     * Re-reads `logLevel`, `enableDebugLogging` and the log file settings.
+     */
+    updateConfiguration() {
+        const config = vscode.workspace.getConfiguration('quickAutoSave');
+        const configuredLevel = config.get<string>('logLevel', 'info') as LogLevel;
+        this.level = LOG_LEVELS.includes(configuredLevel) ? configuredLevel : 'info';
+
+        // The older boolean switch still turns on debug output
+        if (config.get('enableDebugLogging', false) && !this.isEnabled('debug')) {
+            this.level = 'debug';
+        }
+
+        const logToFile = config.get('logToFile', false) && !!this.logDirectory;
+        if (logToFile && this.logDirectory) {
+            const limits = {
+                maxSizeBytes: Math.max(16, config.get('logFileMaxSizeKB', 1024)) * 1024,
+                maxFiles: Math.max(1, config.get('logFileMaxFiles', 3))
+            };
+            if (this.logFile) {
+                this.logFile.limits = limits;
+            } else {
+                this.logFile = new LogFile(this.logDirectory.fsPath, limits);
+            }
+        } else if (this.logFile) {
+            this.logFile.flush();
+            this.logFile = undefined;
+        }
+    }
+
+    isEnabled(level: LogLevel): boolean {
+        return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.level);
+    }
+
+    get isLoggingToFile(): boolean {
+        return !!this.logFile;
+    }
+
+    private log(level: LogLevel, message: string, error?: Error, fields?: LogFields) {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+
+        const record: LogRecord = { timestamp: new Date().toISOString(), level, message };
+        if (fields && Object.keys(fields).length > 0) {
+            record.fields = fields;
+        }
+        if (error) {
+            record.error = { message: error.message, stack: error.stack };
+        }
+
+        const formattedMessage = formatRecord(record);
+        if (level === 'error') {
+            console.error(formattedMessage);
+        } else {
+            console.log(formattedMessage);
+        }
+        this.outputChannel.appendLine(formattedMessage);
+        if (record.error) {
+            this.outputChannel.appendLine(`Error: ${record.error.message}\nStack: ${record.error.stack}`);
+        }
+
+        this.recentRecords.push(record);
+        if (this.recentRecords.length > MAX_RECENT_RECORDS) {
+            this.recentRecords.shift();
+        }
+        this.logFile?.append(record);
+    }
+
+    info(message: string, fields?: LogFields) {
+        this.log('info', message, undefined, fields);
+    }
+
+    warn(message: string, fields?: LogFields) {
+        this.log('warn', message, undefined, fields);
+    }
+
+    error(message: string, error?: Error, fields?: LogFields) {
+        this.log('error', message, error, fields);
+    }
+
+    debug(message: string, fields?: LogFields) {
+        this.log('debug', message, undefined, fields);
+    }
+
+    trace(message: string, fields?: LogFields) {
+        this.log('trace', message, undefined, fields);
+    }
+
+    /**
+     * Returns the most recent records, oldest first. Records from earlier sessions are
+     * only available when they were written to the log file.
+     */
+    async getRecentRecords(limit: number): Promise<LogRecord[]> {
+        let records: LogRecord[] = [];
+        if (this.logDirectory) {
+            await this.logFile?.flush();
+            records = await readLogFiles(this.logDirectory.fsPath);
+        }
+        if (!this.logFile) {
+            records = records.concat(this.recentRecords);
+        }
+        return records.slice(-limit);
+    }
+
+    showOutputChannel() {
+        this.outputChannel.show();
+    }
+
+    dispose() {
+        this.logFile?.flush();
+        this.outputChannel.dispose();
+    }
+}
+
+interface LogFileLimits {
+    maxSizeBytes: number;
+    maxFiles: number;
+}
+
+/**
+ * Appends records to `quick-auto-save.jsonl`, rotating it to `quick-auto-save.1.jsonl`,
+ * `.2.jsonl`, ... once it exceeds the size limit. Writes are batched and serialized.
+ */
+class LogFile {
+    private buffer: string[] = [];
+    private writing: Promise<void> = Promise.resolve();
+    private flushScheduled = false;
+    private size: number | undefined;
+
+    constructor(private directory: string, public limits: LogFileLimits) {}
+
+    append(record: LogRecord) {
+        this.buffer.push(JSON.stringify(record) + '\n');
+        if (!this.flushScheduled) {
+            this.flushScheduled = true;
+            setTimeout(() => this.flush(), 100);
+        }
+    }
+
+    flush(): Promise<void> {
+        this.flushScheduled = false;
+        if (this.buffer.length === 0) {
+            return this.writing;
+        }
+
+        const chunk = this.buffer.join('');
+        this.buffer = [];
+        this.writing = this.writing.then(() => this.write(chunk)).catch(error => {
+            // Logging must never break auto-save; report to the console only
+            console.error('Quick Auto-Save: failed to write log file', error);
+        });
+        return this.writing;
+    }
+
+    private async write(chunk: string) {
+        const filePath = logFilePath(this.directory, 0);
+        if (this.size === undefined) {
+            await fs.promises.mkdir(this.directory, { recursive: true });
+            this.size = await fs.promises.stat(filePath).then(stat => stat.size, () => 0);
+        }
+
+        const bytes = Buffer.byteLength(chunk, 'utf8');
+        if (this.size > 0 && this.size + bytes > this.limits.maxSizeBytes) {
+            await this.rotate();
+            this.size = 0;
+        }
+
+        await fs.promises.appendFile(filePath, chunk, 'utf8');
+        this.size += bytes;
+    }
+
+    private async rotate() {
+        // Drop the oldest file, then shift every other file up by one
+        await fs.promises.rm(logFilePath(this.directory, this.limits.maxFiles - 1), { force: true });
+        for (let index = this.limits.maxFiles - 2; index >= 0; index--) {
+            await fs.promises.rename(logFilePath(this.directory, index), logFilePath(this.directory, index + 1)).catch(() => undefined);
+        }
+    }
+}
+
+function logFilePath(directory: string, index: number): string {
+    const suffix = index === 0 ? '' : `.${index}`;
+    return path.join(directory, `${LOG_FILE_NAME}${suffix}${LOG_FILE_EXTENSION}`);
+}
+
+async function readLogFiles(directory: string): Promise<LogRecord[]> {
+    const names = await fs.promises.readdir(directory).catch(() => [] as string[]);
+    const indexes = names
+        .map(name => new RegExp(`^${LOG_FILE_NAME}(?:\\.(\\d+))?\\${LOG_FILE_EXTENSION}$`).exec(name))
+        .filter((match): match is RegExpExecArray => !!match)
+        .map(match => Number(match[1] ?? 0))
+        .sort((a, b) => b - a);
+
+    const records: LogRecord[] = [];
+    for (const index of indexes) {
+        const content = await fs.promises.readFile(logFilePath(directory, index), 'utf8').catch(() => '');
+        for (const line of content.split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                records.push(JSON.parse(line));
+            } catch {
+                // Skip lines cut off by a crash or a rotation
+            }
+        }
+    }
+    return records;
+}
+
+function formatRecord(record: LogRecord): string {
+    const line = `[${record.timestamp}] [${record.level.toUpperCase()}] ${record.message}`;
+    if (!record.fields) {
+        return line;
+    }
+
+    const fields = Object.entries(record.fields)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${formatValue(value)}`);
+    return fields.length > 0 ? `${line} ${fields.join(' ')}` : line;
+}
+
+function formatValue(value: unknown): string {
+    if (typeof value === 'string') {
+        return /\s|^$/.test(value) ? JSON.stringify(value) : value;
+    }
+    if (value instanceof Error) {
+        return JSON.stringify(value.message);
+    }
+    return JSON.stringify(value) ?? String(value);
+}
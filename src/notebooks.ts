@@ -0,0 +1,246 @@
+import * as vscode from 'vscode';
+import { SaveTrigger } from './api';
+import { AutoSaveEvaluation } from './eligibility';
+import { Logger } from './logger';
+import { ProfileTarget, SaveProfile } from './profiles';
+import { SuspensionManager } from './suspension';
+
+// Cell editors of an open notebook; their edits are saved with the notebook
+export const NOTEBOOK_CELL_SCHEME = 'vscode-notebook-cell';
+
+export type AutoSaveDocument = vscode.TextDocument | vscode.NotebookDocument;
+
+export function isNotebook(document: AutoSaveDocument): document is vscode.NotebookDocument {
+    return 'notebookType' in document;
+}
+
+/**
+ * What override rules and statistics see of a document; a notebook's language is its
+ * notebook type, e.g. `jupyter-notebook`.
+ */
+export function toProfileTarget(document: AutoSaveDocument): ProfileTarget {
+    return isNotebook(document) ? { uri: document.uri, languageId: document.notebookType } : document;
+}
+
+export interface NotebookSaveDelay {
+    delay: number;
+    reason: string;
+}
+
+export interface NotebookAutoSaveHost {
+    // Whether debounced saves are enabled for the notebook's folder
+    isEnabled(uri: vscode.Uri): boolean;
+    evaluate(notebook: vscode.NotebookDocument): AutoSaveEvaluation;
+    getProfile(notebook: vscode.NotebookDocument): SaveProfile;
+    // Debounce delay after a change, like a text document's; also feeds the adaptive cadence
+    getDelay(notebook: vscode.NotebookDocument, profile: SaveProfile): NotebookSaveDelay;
+    saveOnOutputChange(notebook: vscode.NotebookDocument): boolean;
+    // Whether saves deferred during a suspension run (true) or are dropped when it ends
+    flushOnResume(): boolean;
+    save(notebook: vscode.NotebookDocument, trigger: SaveTrigger): Promise<boolean>;
+    // Pending notebook saves or the active notebook changed
+    refresh(): void;
+}
+
+export interface PendingNotebookSave {
+    readonly notebook: vscode.NotebookDocument;
+    readonly trigger: SaveTrigger;
+    // Undefined once the save is waiting for a suspension to end
+    timeout: NodeJS.Timeout | undefined;
+    readonly createdAt: number;
+    // Changes since the last save
+    readonly changeCount: number;
+    readonly delay: number;
+    readonly dueAt: number;
+    readonly delayReason: string;
+    deferred: boolean;
+}
+
+/**
+ * Debounces and saves notebooks as a whole. Cell edits arrive as notebook changes;
+ * changes from running cells (outputs, execution state) only count when
+ * `saveNotebookOnOutputChange` is on.
+ */
+export class NotebookAutoSaver implements vscode.Disposable {
+    private pending: Map<string, PendingNotebookSave> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private host: NotebookAutoSaveHost, private suspensions: SuspensionManager, private logger: Logger) {}
+
+    /**
+     * Starts listening for notebook changes. VS Code versions without the notebook
+     * API only auto-save text documents.
+     */
+    watch() {
+        if (typeof vscode.workspace.onDidChangeNotebookDocument !== 'function') {
+            this.logger.info('Notebook API not available, notebooks are not auto-saved');
+            return;
+        }
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeNotebookDocument(event => this.onDidChange(event)),
+            vscode.workspace.onDidSaveNotebookDocument(notebook => this.clear(notebook.uri.toString(), 'Notebook saved')),
+            vscode.workspace.onDidCloseNotebookDocument(notebook => this.clear(notebook.uri.toString(), 'Notebook closed')),
+            vscode.window.onDidChangeActiveNotebookEditor(() => this.host.refresh()),
+            this.suspensions.onDidChange(() => this.resumeDeferred())
+        );
+    }
+
+    get pendingCount(): number {
+        return this.pending.size;
+    }
+
+    getPending(uri: string): PendingNotebookSave | undefined {
+        return this.pending.get(uri);
+    }
+
+    getAllPending(): PendingNotebookSave[] {
+        return Array.from(this.pending.values());
+    }
+
+    clear(uri: string, reason: string) {
+        const entry = this.pending.get(uri);
+        if (!entry) {
+            return;
+        }
+        if (entry.timeout) {
+            clearTimeout(entry.timeout);
+        }
+        this.pending.delete(uri);
+        this.logger.debug('Cleared pending notebook save', { uri, reason });
+        this.host.refresh();
+    }
+
+    /**
+     * Tries a save again after `delayMs`, as asked by a save guard. The attempt shows
+     * up as a pending save.
+     */
+    delay(notebook: vscode.NotebookDocument, trigger: SaveTrigger, delayMs: number, reason?: string) {
+        const uri = notebook.uri.toString();
+        const existing = this.pending.get(uri);
+        if (existing?.timeout) {
+            clearTimeout(existing.timeout);
+        }
+
+        this.schedule(notebook, trigger, delayMs, `save guard${reason ? `: ${reason}` : ''}`, existing?.changeCount ?? 1);
+        this.logger.info('Notebook save delayed by save guard', { uri, trigger, delayMs, reason });
+    }
+
+    dispose() {
+        this.pending.forEach(entry => entry.timeout && clearTimeout(entry.timeout));
+        this.pending.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private onDidChange(event: vscode.NotebookDocumentChangeEvent) {
+        const notebook = event.notebook;
+        const uri = notebook.uri.toString();
+
+        try {
+            if (!this.host.isEnabled(notebook.uri)) {
+                return;
+            }
+
+            // Running a cell shouldn't postpone or cause a save unless asked for
+            if (isExecutionChange(event) && !this.host.saveOnOutputChange(notebook)) {
+                this.logger.trace('Ignoring notebook output change', { uri });
+                return;
+            }
+
+            const evaluation = this.host.evaluate(notebook);
+            if (!evaluation.allowed) {
+                this.logger.debug('Notebook skipped for auto-save', { uri, ...evaluation.toLogFields() });
+                return;
+            }
+
+            const existing = this.pending.get(uri);
+            if (existing?.timeout) {
+                clearTimeout(existing.timeout);
+            }
+
+            const profile = this.host.getProfile(notebook);
+            if (profile.saveOnEveryChange) {
+                this.pending.delete(uri);
+                this.save(notebook, 'immediate');
+                return;
+            }
+
+            const { delay, reason } = this.host.getDelay(notebook, profile);
+            this.schedule(notebook, 'debounce', delay, reason, (existing?.changeCount ?? 0) + 1);
+
+            this.logger.debug('Scheduled notebook auto-save', { uri, delay, reason, source: profile.source, cells: notebook.cellCount });
+        } catch (error) {
+            this.logger.error('Error handling notebook change', error instanceof Error ? error : new Error(String(error)), { uri });
+        }
+    }
+
+    private schedule(notebook: vscode.NotebookDocument, trigger: SaveTrigger, delay: number, delayReason: string, changeCount: number) {
+        const uri = notebook.uri.toString();
+        const entry: PendingNotebookSave = {
+            notebook,
+            trigger,
+            timeout: undefined,
+            createdAt: Date.now(),
+            changeCount,
+            delay,
+            dueAt: Date.now() + delay,
+            delayReason,
+            deferred: false
+        };
+        entry.timeout = setTimeout(() => this.onDue(uri, entry), delay);
+        this.pending.set(uri, entry);
+        this.host.refresh();
+    }
+
+    private onDue(uri: string, entry: PendingNotebookSave) {
+        if (this.pending.get(uri) !== entry) {
+            return;
+        }
+        entry.timeout = undefined;
+
+        if (this.suspensions.isSuspendedFor(entry.notebook.uri)) {
+            entry.deferred = true;
+            this.logger.debug('Notebook save deferred while suspended', { uri });
+            this.host.refresh();
+            return;
+        }
+
+        this.pending.delete(uri);
+        this.save(entry.notebook, entry.trigger);
+    }
+
+    private resumeDeferred() {
+        const flush = this.host.flushOnResume();
+        this.pending.forEach((entry, uri) => {
+            if (!entry.deferred || this.suspensions.isSuspendedFor(entry.notebook.uri)) {
+                return;
+            }
+            this.pending.delete(uri);
+            if (flush) {
+                this.save(entry.notebook, entry.trigger);
+            } else {
+                this.logger.debug('Dropped notebook save after suspension', { uri });
+            }
+        });
+        this.host.refresh();
+    }
+
+    private save(notebook: vscode.NotebookDocument, trigger: SaveTrigger) {
+        this.host.save(notebook, trigger).catch(error => {
+            this.logger.error('Failed notebook save', error instanceof Error ? error : new Error(String(error)), {
+                uri: notebook.uri.toString()
+            });
+        }).finally(() => this.host.refresh());
+    }
+}
+
+/**
+ * True when the change only carries outputs, execution summaries or both, as
+ * produced by running cells.
+ */
+function isExecutionChange(event: vscode.NotebookDocumentChangeEvent): boolean {
+    return event.contentChanges.length === 0
+        && event.metadata === undefined
+        && event.cellChanges.length > 0
+        && event.cellChanges.every(change => change.document === undefined && change.metadata === undefined);
+}
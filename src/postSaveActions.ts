@@ -0,0 +1,313 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ChildProcess, exec } from 'child_process';
+import { FileFilter } from './fileFilter';
+import { Logger } from './logger';
+import { ProfileTarget } from './profiles';
+
+// Saves arriving within this window after the first one share a single run
+const COALESCE_MS = 500;
+const DEFAULT_COOLDOWN_SECONDS = 5;
+const SHELL_TIMEOUT_MS = 120000;
+const TASK_TIMEOUT_MS = 120000;
+// Longest part of a shell command's output written to the log
+const MAX_LOGGED_OUTPUT = 4000;
+const REDACTED = '<redacted>';
+
+export interface PostSaveActionRule {
+    // Shown in logs instead of the task, command or shell command
+    name?: string;
+    languageId?: string | string[];
+    pattern?: string;
+    // Exactly one of these: a tasks.json task label, a command ID or a shell command
+    task?: string;
+    command?: string;
+    shell?: string;
+    // Arguments for `command`; strings can use the same variables as `shell`
+    args?: unknown[];
+    // Minimum time between the end of one run and the start of the next
+    cooldownSeconds?: number;
+}
+
+interface RuleState {
+    key: string;
+    rule: PostSaveActionRule;
+    label: string;
+    // Saved files waiting for the next run, keyed by URI
+    files: Map<string, vscode.Uri>;
+    timer?: NodeJS.Timeout;
+    running: boolean;
+    lastRunEnd: number;
+}
+
+/**
+ * Returns a description of why a rule is unusable, or undefined when it is valid.
+ */
+export function validatePostSaveActionRule(rule: PostSaveActionRule): string | undefined {
+    if (!rule || typeof rule !== 'object') {
+        return 'must be an object';
+    }
+    const actions = [rule.task, rule.command, rule.shell].filter(action => action !== undefined);
+    if (actions.length !== 1) {
+        return 'must specify exactly one of task, command or shell';
+    }
+    if (actions.some(action => typeof action !== 'string' || !action.trim())) {
+        return 'must name a non-empty task, command or shell command';
+    }
+    return undefined;
+}
+
+/**
+ * Returns a copy of a rule that can be logged or exported: shell commands and command
+ * arguments can carry tokens, so only whether they are set is kept.
+ */
+export function redactPostSaveActionRule(rule: PostSaveActionRule): unknown {
+    if (!rule || typeof rule !== 'object') {
+        return rule;
+    }
+    const redacted: Record<string, unknown> = { ...rule };
+    if (rule.shell !== undefined) {
+        redacted.shell = REDACTED;
+    }
+    if (rule.args !== undefined) {
+        redacted.args = REDACTED;
+    }
+    return redacted;
+}
+
+/**
+ * Runs the `postSaveActions` rules matching auto-saved files. Saves are coalesced
+ * per rule, so saving many files at once runs each action once with all of them,
+ * and a rule never runs while its previous run is still going or cooling down.
+ */
+export class PostSaveActions implements vscode.Disposable {
+    // Keyed by the rule's JSON, so editing a rule starts it afresh
+    private states: Map<string, RuleState> = new Map();
+    private processes: Set<ChildProcess> = new Set();
+    private executions: Set<vscode.TaskExecution> = new Set();
+
+    constructor(private getRules: (uri: vscode.Uri) => PostSaveActionRule[], private fileFilter: FileFilter, private logger: Logger) {}
+
+    /**
+     * Queues the actions of every rule matching the saved document.
+     */
+    onDidSave(document: ProfileTarget) {
+        const rules = this.getRules(document.uri);
+        if (!Array.isArray(rules) || rules.length === 0) {
+            return;
+        }
+
+        for (const rule of rules) {
+            // Invalid rules are reported when the configuration is validated
+            if (validatePostSaveActionRule(rule) || !this.matches(rule, document)) {
+                continue;
+            }
+
+            const key = JSON.stringify(rule);
+            let state = this.states.get(key);
+            if (!state) {
+                state = {
+                    key,
+                    rule,
+                    label: rule.name ?? (rule.task !== undefined ? `task ${rule.task}` : rule.command ?? rule.shell!),
+                    files: new Map(),
+                    running: false,
+                    lastRunEnd: 0
+                };
+                this.states.set(key, state);
+            }
+            state.files.set(document.uri.toString(), document.uri);
+            this.schedule(state);
+        }
+    }
+
+    dispose() {
+        this.states.forEach(state => state.timer && clearTimeout(state.timer));
+        this.states.clear();
+        this.processes.forEach(child => child.kill());
+        this.processes.clear();
+        this.executions.forEach(execution => execution.terminate());
+        this.executions.clear();
+    }
+
+    private matches(rule: PostSaveActionRule, document: ProfileTarget): boolean {
+        if (rule.languageId !== undefined) {
+            const languageIds = Array.isArray(rule.languageId) ? rule.languageId : [rule.languageId];
+            if (!languageIds.includes(document.languageId)) {
+                return false;
+            }
+        }
+        return rule.pattern === undefined || this.fileFilter.matchesGlob(document.uri, rule.pattern);
+    }
+
+    private schedule(state: RuleState) {
+        // A running rule picks up the new files when it finishes
+        if (state.timer || state.running) {
+            return;
+        }
+        const cooldownMs = Math.max(0, state.rule.cooldownSeconds ?? DEFAULT_COOLDOWN_SECONDS) * 1000;
+        const wait = Math.max(COALESCE_MS, state.lastRunEnd + cooldownMs - Date.now());
+        state.timer = setTimeout(() => {
+            state.timer = undefined;
+            this.run(state);
+        }, wait);
+    }
+
+    private async run(state: RuleState) {
+        // Skip files whose settings no longer have the rule
+        const files = Array.from(state.files.values())
+            .filter(file => this.getRules(file).some(rule => JSON.stringify(rule) === state.key));
+        state.files.clear();
+        if (files.length === 0) {
+            this.states.delete(state.key);
+            return;
+        }
+
+        if (!vscode.workspace.isTrusted) {
+            this.logger.warn('Post-save action skipped in untrusted workspace', { action: state.label });
+            return;
+        }
+
+        state.running = true;
+        const startTime = Date.now();
+        this.logger.info('Running post-save action', { action: state.label, files: files.map(file => file.toString()) });
+
+        try {
+            const { rule } = state;
+            if (rule.task !== undefined) {
+                await this.runTask(rule.task);
+            } else if (rule.command !== undefined) {
+                const args = (Array.isArray(rule.args) ? rule.args : []).map(arg => typeof arg === 'string' ? substituteVariables(arg, files, value => value) : arg);
+                await vscode.commands.executeCommand(rule.command, ...args);
+            } else {
+                await this.runShell(substituteVariables(rule.shell!, files, quoteForShell), getWorkingDirectory(files[0]));
+            }
+            this.logger.info('Post-save action finished', { action: state.label, durationMs: Date.now() - startTime });
+        } catch (error) {
+            this.logger.error('Post-save action failed', error instanceof Error ? error : new Error(String(error)), {
+                action: state.label,
+                durationMs: Date.now() - startTime
+            });
+        } finally {
+            state.running = false;
+            state.lastRunEnd = Date.now();
+            if (state.files.size > 0) {
+                this.schedule(state);
+            }
+        }
+    }
+
+    private async runTask(label: string) {
+        const task = (await vscode.tasks.fetchTasks()).find(candidate => candidate.name === label);
+        if (!task) {
+            throw new Error(`Task "${label}" not found`);
+        }
+        // Watchers and other background tasks never end, so the rule would never run again
+        if (task.isBackground) {
+            throw new Error(`Task "${label}" is a background task`);
+        }
+
+        // Listening before the task starts, since a quick one can end before executeTask resolves
+        const exitCodes = new Map<vscode.TaskExecution, number | undefined>();
+        const ended = new Set<vscode.TaskExecution>();
+        let checkEnded: () => void = () => undefined;
+        const listeners = [
+            vscode.tasks.onDidEndTaskProcess(event => exitCodes.set(event.execution, event.exitCode)),
+            vscode.tasks.onDidEndTask(event => {
+                ended.add(event.execution);
+                checkEnded();
+            })
+        ];
+
+        let execution: vscode.TaskExecution | undefined;
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            execution = await vscode.tasks.executeTask(task);
+            const started = execution;
+            this.executions.add(started);
+            await new Promise<void>((resolve, reject) => {
+                checkEnded = () => ended.has(started) ? resolve() : undefined;
+                timer = setTimeout(() => {
+                    started.terminate();
+                    reject(new Error(`Task "${label}" did not finish within ${TASK_TIMEOUT_MS / 1000} seconds`));
+                }, TASK_TIMEOUT_MS);
+                checkEnded();
+            });
+
+            const exitCode = exitCodes.get(started);
+            if (exitCode !== undefined && exitCode !== 0) {
+                throw new Error(`Task "${label}" exited with code ${exitCode}`);
+            }
+        } finally {
+            clearTimeout(timer);
+            listeners.forEach(listener => listener.dispose());
+            if (execution) {
+                this.executions.delete(execution);
+            }
+        }
+    }
+
+    private runShell(command: string, cwd: string | undefined): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const child = exec(command, { cwd, timeout: SHELL_TIMEOUT_MS }, (error, stdout, stderr) => {
+                this.processes.delete(child);
+                const output = { command, stdout: truncate(stdout), stderr: truncate(stderr) };
+                if (error) {
+                    this.logger.warn('Post-save shell command output', output);
+                    reject(error);
+                } else {
+                    this.logger.info('Post-save shell command output', output);
+                    resolve();
+                }
+            });
+            this.processes.add(child);
+        });
+    }
+}
+
+/**
+ * Replaces `${file}`-style variables with values for the last saved file. `${files}`
+ * is every saved file of the run, separated by spaces. Each value goes through `quote`.
+ */
+export function substituteVariables(value: string, files: vscode.Uri[], quote: (value: string) => string): string {
+    const file = files[files.length - 1];
+    const folder = vscode.workspace.getWorkspaceFolder(file);
+    const filePath = file.fsPath;
+    const extension = path.extname(filePath);
+    const variables: Record<string, string> = {
+        file: quote(filePath),
+        files: files.map(saved => quote(saved.fsPath)).join(' '),
+        fileBasename: quote(path.basename(filePath)),
+        fileBasenameNoExtension: quote(path.basename(filePath, extension)),
+        fileDirname: quote(path.dirname(filePath)),
+        fileExtname: quote(extension),
+        relativeFile: quote(folder ? path.relative(folder.uri.fsPath, filePath) : filePath),
+        workspaceFolder: quote(folder?.uri.fsPath ?? '')
+    };
+    return value.replace(/\$\{(\w+)\}/g, (match, name: string) => variables[name] ?? match);
+}
+
+/**
+ * Quotes a value as a single argument for the shell `exec` runs: `/bin/sh`, where
+ * nothing inside single quotes is expanded, or `cmd.exe`, where double quotes keep
+ * `&`, `|` and the like literal and file names can't contain a double quote.
+ */
+export function quoteForShell(value: string, platform: NodeJS.Platform = process.platform): string {
+    if (platform === 'win32') {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function getWorkingDirectory(file: vscode.Uri): string | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(file);
+    if (folder?.uri.scheme === 'file') {
+        return folder.uri.fsPath;
+    }
+    return file.scheme === 'file' ? path.dirname(file.fsPath) : undefined;
+}
+
+function truncate(output: string): string {
+    const trimmed = output.trim();
+    return trimmed.length > MAX_LOGGED_OUTPUT ? `${trimmed.slice(0, MAX_LOGGED_OUTPUT)}…` : trimmed;
+}
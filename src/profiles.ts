@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import { FileFilter } from './fileFilter';
+
+/**
+ * The effective save behavior for a single document after applying `overrides`.
+ */
+export interface SaveProfile {
+    enabled: boolean;
+    saveDelay: number;
+    delayMode: 'fixed' | 'adaptive';
+    saveOnEveryChange: boolean;
+    saveUntitled: boolean;
+    maxFileSizeKB: number;
+    showNotifications: boolean;
+    holdOnErrors: boolean;
+    // Where the profile came from: 'default' or 'overrides[<index>]'
+    source: string;
+}
+
+export type ProfileOptions = Omit<SaveProfile, 'source'>;
+
+// What override rules match against; notebooks use their notebook type as language
+export type ProfileTarget = Pick<vscode.TextDocument, 'uri' | 'languageId'>;
+
+export interface OverrideRule extends Partial<ProfileOptions> {
+    languageId?: string | string[];
+    pattern?: string;
+}
+
+export const DELAY_MODES: SaveProfile['delayMode'][] = ['fixed', 'adaptive'];
+
+const PROFILE_KEYS: (keyof ProfileOptions)[] = [
+    'enabled',
+    'saveDelay',
+    'delayMode',
+    'saveOnEveryChange',
+    'saveUntitled',
+    'maxFileSizeKB',
+    'showNotifications',
+    'holdOnErrors'
+];
+
+/**
+ * Resolves the save profile for a document. Override rules are checked in order and
+ * the first rule whose `languageId` and `pattern` both match (when set) wins; its
+ * options are layered on top of the global settings.
+ */
+export function resolveSaveProfile(
+    document: ProfileTarget,
+    config: vscode.WorkspaceConfiguration,
+    fileFilter: FileFilter
+): SaveProfile {
+    // An unknown mode is reported by the configuration check and treated as fixed
+    const delayMode = config.get<string>('delayMode', 'fixed');
+    const profile: SaveProfile = {
+        enabled: config.get('enabled', true),
+        saveDelay: config.get('saveDelay', 200),
+        delayMode: isDelayMode(delayMode) ? delayMode : 'fixed',
+        saveOnEveryChange: config.get('saveOnEveryChange', false),
+        saveUntitled: config.get('saveUntitled', false),
+        maxFileSizeKB: config.get('maxFileSizeKB', 1024),
+        showNotifications: config.get('showNotifications', false),
+        holdOnErrors: config.get('holdOnErrors', false),
+        source: 'default'
+    };
+
+    const overrides: OverrideRule[] = config.get('overrides', []);
+    if (!Array.isArray(overrides)) {
+        return profile;
+    }
+
+    const index = overrides.findIndex(rule => ruleMatches(rule, document, fileFilter));
+    if (index === -1) {
+        return profile;
+    }
+
+    const rule = overrides[index];
+    for (const key of PROFILE_KEYS) {
+        applyOption(profile, rule, key);
+    }
+    profile.source = `overrides[${index}]`;
+
+    return profile;
+}
+
+/**
+ * Returns a description of why a rule is unusable, or undefined when it is valid.
+ */
+export function validateOverrideRule(rule: OverrideRule): string | undefined {
+    if (!rule || typeof rule !== 'object') {
+        return 'must be an object';
+    }
+    if (rule.languageId === undefined && rule.pattern === undefined) {
+        return 'must specify a languageId or pattern';
+    }
+    if (!PROFILE_KEYS.some(key => rule[key] !== undefined)) {
+        return 'does not override any option';
+    }
+    if (rule.delayMode !== undefined && !isDelayMode(rule.delayMode)) {
+        return `has an unknown delayMode "${rule.delayMode}"`;
+    }
+    return undefined;
+}
+
+export function isDelayMode(value: unknown): value is SaveProfile['delayMode'] {
+    return DELAY_MODES.includes(value as SaveProfile['delayMode']);
+}
+
+// Options of the wrong type, e.g. a string saveDelay, are ignored
+function applyOption<K extends keyof ProfileOptions>(profile: ProfileOptions, rule: Partial<ProfileOptions>, key: K) {
+    const value = rule[key];
+    if (value !== undefined && typeof value === typeof profile[key]) {
+        profile[key] = value;
+    }
+}
+
+function ruleMatches(rule: OverrideRule, document: ProfileTarget, fileFilter: FileFilter): boolean {
+    if (validateOverrideRule(rule)) {
+        return false;
+    }
+
+    if (rule.languageId !== undefined) {
+        const languageIds = Array.isArray(rule.languageId) ? rule.languageId : [rule.languageId];
+        if (!languageIds.includes(document.languageId)) {
+            return false;
+        }
+    }
+
+    if (rule.pattern !== undefined && !fileFilter.matchesGlob(document.uri, rule.pattern)) {
+        return false;
+    }
+
+    return true;
+}
@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+
+// Delay before the first retry; doubled for every further attempt
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+// Errors that won't go away by retrying, e.g. permission denied or read-only mounts
+const PERMANENT_ERROR_CODES = ['EACCES', 'EPERM', 'EROFS', 'NoPermissions', 'FileIsADirectory', 'FileNotADirectory'];
+const PERMANENT_ERROR_PATTERN = /permission denied|read-?only|not permitted|access is denied/i;
+
+export type FailureKind = 'transient' | 'permanent';
+
+export interface FailedSave {
+    uri: string;
+    fileName: string;
+    lastError: string;
+    kind: FailureKind;
+    retryCount: number;
+    firstFailedAt: number;
+    nextRetryAt?: number;
+    // Set when the user stopped auto-saving the document from the Failed Saves view
+    stopped: boolean;
+}
+
+/**
+ * Tracks documents whose auto-save failed and retries transient failures with
+ * exponential backoff, up to a configurable limit. Permanent failures are kept for
+ * the user to act on but never retried automatically.
+ */
+export class RetryQueue implements vscode.Disposable {
+    private entries: Map<string, FailedSave> = new Map();
+    private timers: Map<string, NodeJS.Timeout> = new Map();
+    // Retries that came due while auto-save was suspended for the document
+    private waiting: Set<string> = new Set();
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    /**
+     * @param retry Saves the document again; resolves to true on success
+     * @param isSuspended Whether auto-save is suspended for the document, which holds its retries
+     */
+    constructor(
+        private retry: (uri: string) => Promise<boolean>,
+        private isSuspended: (uri: string) => boolean,
+        private logger: Logger
+    ) {}
+
+    /**
+     * Records a failed save and schedules a retry if the error is transient and the
+     * retry limit has not been reached.
+     */
+    recordFailure(uri: string, fileName: string, error: unknown, retryLimit: number) {
+        const existing = this.entries.get(uri);
+        const entry: FailedSave = {
+            uri,
+            fileName,
+            lastError: error instanceof Error ? error.message : String(error),
+            kind: classifyError(error),
+            retryCount: existing ? existing.retryCount + 1 : 0,
+            firstFailedAt: existing?.firstFailedAt ?? Date.now(),
+            stopped: existing?.stopped ?? false
+        };
+        this.entries.set(uri, entry);
+        this.clearTimer(uri);
+
+        if (entry.kind === 'transient' && !entry.stopped && entry.retryCount < retryLimit) {
+            const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, entry.retryCount));
+            entry.nextRetryAt = Date.now() + delay;
+            this.timers.set(uri, setTimeout(() => this.runRetry(uri), delay));
+            this.logger.info('Save retry scheduled', { uri, retryCount: entry.retryCount, delayMs: delay });
+        } else {
+            this.logger.warn('Save will not be retried automatically', {
+                uri,
+                kind: entry.kind,
+                retryCount: entry.retryCount,
+                retryLimit
+            });
+        }
+
+        this.changeEmitter.fire();
+    }
+
+    recordSuccess(uri: string) {
+        if (this.entries.has(uri) && !this.entries.get(uri)?.stopped) {
+            this.remove(uri);
+            this.logger.info('Previously failed document saved', { uri });
+        }
+    }
+
+    /**
+     * Retries immediately, also resuming auto-save if it was stopped.
+     */
+    retryNow(uri: string) {
+        const entry = this.entries.get(uri);
+        if (!entry) {
+            return;
+        }
+        entry.stopped = false;
+        this.clearTimer(uri);
+        this.runRetry(uri);
+    }
+
+    /**
+     * Runs the retries held by a suspension that has since ended.
+     */
+    resumeWaiting() {
+        Array.from(this.waiting)
+            .filter(uri => !this.isSuspended(uri))
+            .forEach(uri => {
+                this.waiting.delete(uri);
+                this.runRetry(uri);
+            });
+    }
+
+    /**
+     * Stops auto-saving the document until it is retried or removed.
+     */
+    stop(uri: string) {
+        const entry = this.entries.get(uri);
+        if (!entry) {
+            return;
+        }
+        entry.stopped = true;
+        entry.nextRetryAt = undefined;
+        this.clearTimer(uri);
+        this.logger.info('Auto-save stopped for failed document', { uri });
+        this.changeEmitter.fire();
+    }
+
+    isStopped(uri: string): boolean {
+        return this.entries.get(uri)?.stopped ?? false;
+    }
+
+    remove(uri: string) {
+        this.clearTimer(uri);
+        this.waiting.delete(uri);
+        if (this.entries.delete(uri)) {
+            this.changeEmitter.fire();
+        }
+    }
+
+    getAll(): FailedSave[] {
+        return Array.from(this.entries.values()).sort((a, b) => a.firstFailedAt - b.firstFailedAt);
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    dispose() {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.waiting.clear();
+        this.entries.clear();
+        this.changeEmitter.dispose();
+    }
+
+    private async runRetry(uri: string) {
+        this.timers.delete(uri);
+        const entry = this.entries.get(uri);
+        if (!entry || entry.stopped) {
+            return;
+        }
+
+        entry.nextRetryAt = undefined;
+        this.changeEmitter.fire();
+        if (this.isSuspended(uri)) {
+            this.waiting.add(uri);
+            this.logger.debug('Save retry waiting for auto-save to resume', { uri, retryCount: entry.retryCount });
+            return;
+        }
+        this.logger.debug('Retrying failed save', { uri, retryCount: entry.retryCount });
+
+        try {
+            if (await this.retry(uri)) {
+                this.remove(uri);
+            } else if (this.entries.get(uri) === entry) {
+                // Skipped without failing again (a guard veto, conflict markers, an external
+                // change): nothing is left to retry, and the next edit schedules a save anyway
+                this.remove(uri);
+                this.logger.info('Save retry skipped, dropped from the retry queue', { uri, retryCount: entry.retryCount });
+            }
+        } catch (error) {
+            this.logger.error('Error retrying save', error instanceof Error ? error : new Error(String(error)), { uri });
+        }
+    }
+
+    private clearTimer(uri: string) {
+        this.waiting.delete(uri);
+        const timer = this.timers.get(uri);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(uri);
+        }
+    }
+}
+
+export function classifyError(error: unknown): FailureKind {
+    const code = (error as NodeJS.ErrnoException | vscode.FileSystemError)?.code;
+    if (code && PERMANENT_ERROR_CODES.includes(code)) {
+        return 'permanent';
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return PERMANENT_ERROR_PATTERN.test(message) ? 'permanent' : 'transient';
+}
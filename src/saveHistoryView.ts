@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { describeEntry, formatDetails, KIND_ICONS, KIND_LABELS, SaveTimeline, SaveTimelineEntry } from './saveTimeline';
+
+/**
+ * Tree data for the "Save History" view: the recorded saves, skips and failures of
+ * the file in the active editor, newest first.
+ */
+export class SaveHistoryProvider implements vscode.TreeDataProvider<SaveTimelineEntry>, vscode.Disposable {
+    private changeEmitter = new vscode.EventEmitter<SaveTimelineEntry | undefined>();
+    private disposables: vscode.Disposable[] = [];
+    private uri: vscode.Uri | undefined;
+
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(private timeline: SaveTimeline) {
+        this.uri = vscode.window.activeTextEditor?.document.uri;
+        this.disposables.push(
+            timeline.onDidChange(uri => {
+                if (uri.toString() === this.uri?.toString()) {
+                    this.changeEmitter.fire(undefined);
+                }
+            }),
+            // Keep showing the last file while focus is in a panel or another view
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (editor) {
+                    this.uri = editor.document.uri;
+                    this.changeEmitter.fire(undefined);
+                }
+            })
+        );
+    }
+
+    getTreeItem(entry: SaveTimelineEntry): vscode.TreeItem {
+        const item = new vscode.TreeItem(KIND_LABELS[entry.kind], vscode.TreeItemCollapsibleState.None);
+
+        item.id = entry.id;
+        item.description = `${new Date(entry.timestamp).toLocaleTimeString()} · ${describeEntry(entry)}`;
+        item.iconPath = new vscode.ThemeIcon(KIND_ICONS[entry.kind]);
+        item.contextValue = `saveEvent.${entry.kind}`;
+        if (this.uri) {
+            item.tooltip = formatDetails(this.uri, entry);
+            item.command = { command: 'quickAutoSave.showSaveEvent', title: 'Show Save Details', arguments: [this.uri, entry.id] };
+        }
+
+        return item;
+    }
+
+    getChildren(element?: SaveTimelineEntry): SaveTimelineEntry[] {
+        return element || !this.uri ? [] : this.timeline.getEntries(this.uri);
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+
+/**
+ * Saves the document without running save participants (format on save, code
+ * actions on save, trimming whitespace, ...). VS Code only offers this for the
+ * active editor, so other documents, e.g. those saved on focus change or by save
+ * all, fall back to a regular save and the result says so.
+ */
+export async function saveWithoutParticipants(document: vscode.TextDocument): Promise<'participantsSkipped' | 'participantsRan'> {
+    if (vscode.window.activeTextEditor?.document !== document) {
+        const saved = await document.save();
+        if (!saved) {
+            throw new Error('Save was not completed');
+        }
+        return 'participantsRan';
+    }
+
+    // Edits made while the save runs leave the document dirty without the save failing
+    const version = document.version;
+    await vscode.commands.executeCommand('workbench.action.files.saveWithoutFormatting');
+    if (document.isDirty && document.version === version) {
+        throw new Error('Save without formatting was not completed');
+    }
+    return 'participantsSkipped';
+}
+
+/**
+ * Applies what the save participants would have done: formatting (when
+ * `editor.formatOnSave` is on, or always with `forceFormat`) and the code actions
+ * configured in `editor.codeActionsOnSave`. Leaves the document dirty if anything
+ * changed; the caller saves it.
+ */
+export async function runSaveParticipants(document: vscode.TextDocument, forceFormat: boolean, logger: Logger): Promise<void> {
+    const uri = document.uri.toString();
+    const editorConfig = vscode.workspace.getConfiguration('editor', { uri: document.uri, languageId: document.languageId });
+
+    if (forceFormat || editorConfig.get('formatOnSave', false)) {
+        const visibleEditor = vscode.window.visibleTextEditors.find(editor => editor.document === document);
+        const options: vscode.FormattingOptions = {
+            tabSize: Number(visibleEditor?.options.tabSize ?? editorConfig.get('tabSize', 4)),
+            insertSpaces: Boolean(visibleEditor?.options.insertSpaces ?? editorConfig.get('insertSpaces', true))
+        };
+
+        const edits = await vscode.commands.executeCommand<vscode.TextEdit[]>('vscode.executeFormatDocumentProvider', document.uri, options);
+        if (edits && edits.length > 0) {
+            const workspaceEdit = new vscode.WorkspaceEdit();
+            workspaceEdit.set(document.uri, edits);
+            await vscode.workspace.applyEdit(workspaceEdit);
+        }
+        logger.debug('Deferred formatting applied', { uri, edits: edits?.length ?? 0, forced: forceFormat });
+    }
+
+    for (const kind of getCodeActionKinds(editorConfig.get('codeActionsOnSave'))) {
+        const fullRange = new vscode.Range(0, 0, document.lineCount, 0);
+        const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+            'vscode.executeCodeActionProvider',
+            document.uri,
+            fullRange,
+            kind
+        );
+
+        for (const action of actions ?? []) {
+            if (action.edit) {
+                await vscode.workspace.applyEdit(action.edit);
+            }
+            if (action.command) {
+                await vscode.commands.executeCommand(action.command.command, ...(action.command.arguments ?? []));
+            }
+        }
+        logger.debug('Deferred code actions applied', { uri, kind, actions: actions?.length ?? 0 });
+    }
+}
+
+// `editor.codeActionsOnSave` is either a list of kinds or a map of kind to true/"explicit"/"always"
+function getCodeActionKinds(setting: unknown): string[] {
+    if (Array.isArray(setting)) {
+        return setting.filter(kind => typeof kind === 'string');
+    }
+    if (setting && typeof setting === 'object') {
+        return Object.entries(setting as Record<string, unknown>)
+            .filter(([, value]) => value === true || value === 'explicit' || value === 'always')
+            .map(([kind]) => kind);
+    }
+    return [];
+}
@@ -0,0 +1,130 @@
+import { Logger } from './logger';
+
+export interface SchedulerLimits {
+    maxConcurrentSaves: number;
+    maxSavesPerSecond: number;
+}
+
+interface QueuedSave {
+    key: string;
+    task: () => Promise<boolean>;
+    priority: number;
+    resolve: (result: boolean) => void;
+    reject: (error: unknown) => void;
+    queuedAt: number;
+}
+
+/**
+ * Central queue every save goes through. Limits how many saves run at once and how
+ * many may start within any one-second window, and coalesces repeated requests for
+ * a document that is still waiting in the queue. Saves of one document never
+ * overlap: the next one waits until the running one finishes.
+ */
+export class SaveScheduler {
+    private queue: QueuedSave[] = [];
+    private waiting: Map<string, { item: QueuedSave; promise: Promise<boolean> }> = new Map();
+    // Keys with a save in progress
+    private active: Set<string> = new Set();
+    private running = 0;
+    // Start times of recent saves, for the per-second cap
+    private recentStarts: number[] = [];
+    private wakeTimer: NodeJS.Timeout | undefined;
+    private disposed = false;
+
+    constructor(private getLimits: () => SchedulerLimits, private logger: Logger) {}
+
+    /**
+     * Queues a save. If a save for the same key is already waiting, its promise is
+     * returned instead of queueing a second one; when the new request has a higher
+     * priority, its task replaces the waiting one.
+     */
+    schedule(key: string, task: () => Promise<boolean>, priority = 0): Promise<boolean> {
+        const waiting = this.waiting.get(key);
+        if (waiting) {
+            if (priority > waiting.item.priority) {
+                waiting.item.task = task;
+                waiting.item.priority = priority;
+            }
+            this.logger.trace('Save coalesced with queued save', { uri: key, upgraded: waiting.item.task === task });
+            return waiting.promise;
+        }
+
+        let item!: QueuedSave;
+        const promise = new Promise<boolean>((resolve, reject) => {
+            item = { key, task, priority, resolve, reject, queuedAt: Date.now() };
+        });
+        this.queue.push(item);
+        this.waiting.set(key, { item, promise });
+        this.pump();
+        return promise;
+    }
+
+    get pendingCount(): number {
+        return this.queue.length;
+    }
+
+    get runningCount(): number {
+        return this.running;
+    }
+
+    dispose() {
+        this.disposed = true;
+        if (this.wakeTimer) {
+            clearTimeout(this.wakeTimer);
+            this.wakeTimer = undefined;
+        }
+        this.queue.forEach(item => item.resolve(false));
+        this.queue = [];
+        this.waiting.clear();
+    }
+
+    private pump() {
+        if (this.disposed) {
+            return;
+        }
+
+        const limits = this.getLimits();
+        const maxConcurrent = Math.max(1, limits.maxConcurrentSaves);
+        const maxPerSecond = Math.max(1, limits.maxSavesPerSecond);
+
+        while (this.running < maxConcurrent) {
+            // Skip documents that are still being saved; they're pumped again when that finishes
+            const index = this.queue.findIndex(queued => !this.active.has(queued.key));
+            if (index < 0) {
+                return;
+            }
+
+            const now = Date.now();
+            this.recentStarts = this.recentStarts.filter(start => now - start < 1000);
+
+            if (this.recentStarts.length >= maxPerSecond) {
+                // Wake up when the oldest start leaves the one-second window
+                if (!this.wakeTimer) {
+                    const wait = 1000 - (now - this.recentStarts[0]);
+                    this.wakeTimer = setTimeout(() => {
+                        this.wakeTimer = undefined;
+                        this.pump();
+                    }, Math.max(1, wait));
+                }
+                return;
+            }
+
+            const item = this.queue.splice(index, 1)[0];
+            this.waiting.delete(item.key);
+            this.active.add(item.key);
+            this.recentStarts.push(now);
+            this.running++;
+
+            const queuedMs = now - item.queuedAt;
+            if (queuedMs > 0) {
+                this.logger.debug('Save started after waiting in queue', { uri: item.key, queuedMs, queued: this.queue.length });
+            }
+
+            item.task().then(item.resolve, item.reject).finally(() => {
+                this.active.delete(item.key);
+                this.running--;
+                this.pump();
+            });
+        }
+    }
+}
@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { SaveTrigger } from './api';
+import { Logger } from './logger';
+
+const WORKSPACE_STATE_KEY = 'quickAutoSave.saveTimeline';
+// Entries kept per file, and files kept; the files saved least recently are dropped first
+const MAX_ENTRIES_PER_FILE = 50;
+const MAX_FILES = 500;
+// Delay before recorded events are written to storage
+const FLUSH_DELAY_MS = 5000;
+
+export type SaveEventKind = 'saved' | 'skipped' | 'failed';
+
+export interface SaveTimelineEntry {
+    id: string;
+    timestamp: number;
+    kind: SaveEventKind;
+    trigger: SaveTrigger;
+    // Changes flushed by the save, when it came from a pending debounced save
+    changeCount?: number;
+    saveTimeMs?: number;
+    // Why the save was skipped or failed
+    reason?: string;
+}
+
+interface StoredTimeline {
+    version: 1;
+    // URI -> entries, oldest first
+    files: Record<string, SaveTimelineEntry[]>;
+}
+
+export const KIND_LABELS: Record<SaveEventKind, string> = {
+    saved: 'Auto-saved',
+    skipped: 'Auto-save skipped',
+    failed: 'Auto-save failed'
+};
+
+export const KIND_ICONS: Record<SaveEventKind, string> = {
+    saved: 'save',
+    skipped: 'debug-step-over',
+    failed: 'error'
+};
+
+/**
+ * Persistent per-file record of auto-saves, skips and failures, shown in the Save
+ * History view and by **Show Save History**.
+ */
+export class SaveTimeline implements vscode.Disposable {
+    private timeline: StoredTimeline;
+    private flushTimer: NodeJS.Timeout | undefined;
+    private nextId = 1;
+    // Fired with the file an entry was recorded for
+    private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private context: vscode.ExtensionContext, private logger: Logger) {
+        this.timeline = context.workspaceState.get<StoredTimeline>(WORKSPACE_STATE_KEY) ?? { version: 1, files: {} };
+    }
+
+    record(uri: vscode.Uri, entry: Omit<SaveTimelineEntry, 'id' | 'timestamp'>) {
+        const key = uri.toString();
+        const timestamp = Date.now();
+        const entries = this.timeline.files[key] ?? [];
+        entries.push({ id: `${timestamp}-${this.nextId++}`, timestamp, ...entry });
+        if (entries.length > MAX_ENTRIES_PER_FILE) {
+            entries.splice(0, entries.length - MAX_ENTRIES_PER_FILE);
+        }
+
+        // Re-inserting keeps the files in the order they were last recorded
+        delete this.timeline.files[key];
+        this.timeline.files[key] = entries;
+        const keys = Object.keys(this.timeline.files);
+        keys.slice(0, Math.max(0, keys.length - MAX_FILES)).forEach(oldest => delete this.timeline.files[oldest]);
+
+        this.changeEmitter.fire(uri);
+        this.scheduleFlush();
+    }
+
+    /**
+     * Entries for the file, newest first.
+     */
+    getEntries(uri: vscode.Uri): SaveTimelineEntry[] {
+        return (this.timeline.files[uri.toString()] ?? []).slice().reverse();
+    }
+
+    /**
+     * Shows everything recorded about an entry, with a way to the logs.
+     */
+    async showDetails(uri: vscode.Uri, id: string) {
+        const entry = this.getEntries(uri).find(candidate => candidate.id === id);
+        if (!entry) {
+            return;
+        }
+
+        const show = entry.kind === 'failed' ? vscode.window.showErrorMessage : vscode.window.showInformationMessage;
+        const choice = await show(KIND_LABELS[entry.kind], { modal: true, detail: formatDetails(uri, entry) }, 'Show Logs');
+        if (choice === 'Show Logs') {
+            await vscode.commands.executeCommand('quickAutoSave.showLogs');
+        }
+    }
+
+    async flush() {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+
+        try {
+            await this.context.workspaceState.update(WORKSPACE_STATE_KEY, this.timeline);
+        } catch (error) {
+            this.logger.error('Failed to persist save timeline', error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    dispose() {
+        if (this.flushTimer) {
+            this.flush();
+        }
+        this.changeEmitter.dispose();
+    }
+
+    private scheduleFlush() {
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+        }
+    }
+}
+
+/**
+ * One-line summary, e.g. "debounce · 12 changes · 8ms".
+ */
+export function describeEntry(entry: SaveTimelineEntry): string {
+    return [
+        entry.trigger,
+        entry.changeCount !== undefined ? `${entry.changeCount} ${entry.changeCount === 1 ? 'change' : 'changes'}` : undefined,
+        entry.saveTimeMs !== undefined ? `${entry.saveTimeMs}ms` : undefined,
+        entry.reason
+    ].filter(part => part !== undefined).join(' · ');
+}
+
+export function formatDetails(uri: vscode.Uri, entry: SaveTimelineEntry): string {
+    return [
+        `File: ${uri.scheme === 'file' ? vscode.workspace.asRelativePath(uri, true) : uri.toString()}`,
+        `Time: ${new Date(entry.timestamp).toLocaleString()}`,
+        `Trigger: ${entry.trigger}`,
+        entry.changeCount !== undefined ? `Changes flushed: ${entry.changeCount}` : undefined,
+        entry.saveTimeMs !== undefined ? `Save time: ${entry.saveTimeMs}ms` : undefined,
+        entry.reason !== undefined ? `${entry.kind === 'failed' ? 'Error' : 'Reason'}: ${entry.reason}` : undefined
+    ].filter(line => line !== undefined).join('\n');
+}
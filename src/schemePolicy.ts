@@ -0,0 +1,131 @@
+import { Logger } from './logger';
+
+// Save times remembered per scheme for the rolling average
+const MAX_SAMPLES = 20;
+// Fewer samples than this and the average isn't trusted yet
+const MIN_SAMPLES = 3;
+// A slow scheme's debounce delay becomes this multiple of its average save time
+const WIDENING_FACTOR = 5;
+const MAX_DELAY_MS = 10000;
+
+// Read-only views (git history, output, debug sources) and editor internals (settings, chat code blocks, our own diff sides)
+export const DEFAULT_DENIED_SCHEMES = [
+    'git',
+    'gitfs',
+    'output',
+    'debug',
+    'vscode',
+    'vscode-userdata',
+    'walkThrough',
+    'walkThroughSnippet',
+    'vscode-chat-code-block',
+    'quick-auto-save-disk',
+    'quick-auto-save-snapshot'
+];
+
+export interface SchemePolicySettings {
+    // Empty allows every scheme that isn't denied
+    allowedSchemes: string[];
+    deniedSchemes: string[];
+    // Minimum debounce delay per scheme, e.g. { "vscode-remote": 1000 }
+    schemeDelays: Record<string, number>;
+    // Average save time above which a scheme's debounce is widened; 0 turns widening off
+    slowSaveThresholdMs: number;
+}
+
+export interface SchemeDecision {
+    allowed: boolean;
+    detail: string;
+    setting: 'quickAutoSave.allowedSchemes' | 'quickAutoSave.deniedSchemes';
+}
+
+/**
+ * Decides whether documents with the URI scheme may be auto-saved. A denied scheme
+ * is never saved, even when it is also allowed.
+ */
+export function checkScheme(scheme: string, settings: SchemePolicySettings): SchemeDecision {
+    if (Array.isArray(settings.deniedSchemes) && settings.deniedSchemes.includes(scheme)) {
+        return { allowed: false, detail: `the "${scheme}" scheme is denied`, setting: 'quickAutoSave.deniedSchemes' };
+    }
+    if (Array.isArray(settings.allowedSchemes) && settings.allowedSchemes.length > 0 && !settings.allowedSchemes.includes(scheme)) {
+        return { allowed: false, detail: `the "${scheme}" scheme is not in the allowed schemes`, setting: 'quickAutoSave.allowedSchemes' };
+    }
+    return { allowed: true, detail: `the "${scheme}" scheme is allowed`, setting: 'quickAutoSave.deniedSchemes' };
+}
+
+/**
+ * Tracks the rolling average save time per URI scheme and widens the debounce delay
+ * of schemes whose saves are slow, e.g. remote or virtual file systems, so typing
+ * doesn't flood the connection with saves.
+ */
+export class SchemeLatencyTracker {
+    private samples: Map<string, number[]> = new Map();
+    // Schemes currently over the threshold, to log only when that changes
+    private slowSchemes: Set<string> = new Set();
+
+    constructor(private logger: Logger) {}
+
+    record(scheme: string, saveTimeMs: number, thresholdMs: number) {
+        const samples = this.samples.get(scheme) ?? [];
+        samples.push(saveTimeMs);
+        if (samples.length > MAX_SAMPLES) {
+            samples.shift();
+        }
+        this.samples.set(scheme, samples);
+
+        const average = this.getAverage(scheme);
+        const slow = thresholdMs > 0 && average !== undefined && average > thresholdMs;
+        if (slow && !this.slowSchemes.has(scheme)) {
+            this.slowSchemes.add(scheme);
+            this.logger.info('Saves are slow, widening the debounce delay', {
+                scheme,
+                averageSaveTimeMs: Math.round(average!),
+                thresholdMs,
+                delay: Math.min(MAX_DELAY_MS, Math.round(average! * WIDENING_FACTOR))
+            });
+        } else if (!slow && this.slowSchemes.delete(scheme)) {
+            this.logger.info('Saves are fast again, restoring the debounce delay', {
+                scheme,
+                averageSaveTimeMs: average !== undefined ? Math.round(average) : undefined,
+                thresholdMs
+            });
+        }
+    }
+
+    /**
+     * The average of the recent save times, or undefined with too few samples.
+     */
+    getAverage(scheme: string): number | undefined {
+        const samples = this.samples.get(scheme);
+        if (!samples || samples.length < MIN_SAMPLES) {
+            return undefined;
+        }
+        return samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+    }
+
+    /**
+     * Raises the delay to the scheme's configured minimum and, for a slow scheme, to a
+     * multiple of its average save time. `reason` is set when the delay changed.
+     */
+    adjustDelay(scheme: string, delay: number, settings: SchemePolicySettings): { delay: number; reason?: string } {
+        const reasons: string[] = [];
+        let adjusted = delay;
+
+        const schemeDelay = settings.schemeDelays?.[scheme];
+        if (typeof schemeDelay === 'number' && schemeDelay > adjusted) {
+            adjusted = Math.min(MAX_DELAY_MS, schemeDelay);
+            reasons.push(`schemeDelays.${scheme}`);
+        }
+
+        const average = this.getAverage(scheme);
+        if (settings.slowSaveThresholdMs > 0 && average !== undefined && average > settings.slowSaveThresholdMs) {
+            const widened = Math.min(MAX_DELAY_MS, Math.round(average * WIDENING_FACTOR));
+            if (widened > adjusted) {
+                adjusted = widened;
+                reasons.push(`slow ${scheme} saves, ${Math.round(average)}ms average`);
+            }
+        }
+
+        return reasons.length > 0 ? { delay: adjusted, reason: reasons.join(', ') } : { delay };
+    }
+}
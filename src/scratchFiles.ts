@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { SaveTrigger } from './api';
+import { Logger } from './logger';
+
+// 'repoint' replaces the untitled editor with the scratch file; 'mirror' only writes the file
+export type UntitledSaveMode = 'repoint' | 'mirror';
+
+export interface ScratchFile {
+    uri: vscode.Uri;
+    name: string;
+    mtime: number;
+    size: number;
+}
+
+// Longest part of the first line used in a file name
+const MAX_SLUG_LENGTH = 40;
+// Extensions of common languages, for when no installed extension registers the language
+const KNOWN_EXTENSIONS: Record<string, string> = {
+    c: '.c',
+    cpp: '.cpp',
+    csharp: '.cs',
+    css: '.css',
+    go: '.go',
+    html: '.html',
+    java: '.java',
+    javascript: '.js',
+    javascriptreact: '.jsx',
+    json: '.json',
+    markdown: '.md',
+    php: '.php',
+    powershell: '.ps1',
+    python: '.py',
+    ruby: '.rb',
+    rust: '.rs',
+    shellscript: '.sh',
+    sql: '.sql',
+    typescript: '.ts',
+    typescriptreact: '.tsx',
+    xml: '.xml',
+    yaml: '.yaml'
+};
+
+/**
+ * Persists untitled documents to a scratch folder instead of asking for a file name.
+ * Files are named `<language>-<timestamp>-<first line><extension>`, e.g.
+ * `python-20240501-093012-import-requests.py`.
+ */
+export class ScratchFiles {
+    // Untitled document -> the scratch file it is written to
+    private targets: Map<string, vscode.Uri> = new Map();
+    // Re-pointing in progress, so a second save of the same buffer waits for it
+    private repointing: Map<string, Promise<vscode.Uri>> = new Map();
+    private extensionsByLanguage: Map<string, string> = new Map();
+
+    constructor(private context: vscode.ExtensionContext, private getDirectorySetting: () => string, private logger: Logger) {}
+
+    /**
+     * The configured scratch folder, or `scratch` in the extension's global storage.
+     * `~` expands to the home directory.
+     */
+    get directory(): vscode.Uri {
+        const configured = this.getDirectorySetting().trim();
+        if (!configured) {
+            return vscode.Uri.joinPath(this.context.globalStorageUri, 'scratch');
+        }
+        return vscode.Uri.file(configured.replace(/^~(?=$|[\\/])/, os.homedir()));
+    }
+
+    /**
+     * Writes the untitled document to its scratch file and returns the file. With
+     * 'repoint', the untitled editor is then replaced by the file, but only while it
+     * is the active editor or on a manual save, since replacing it moves the focus.
+     * The buffer is left alone if it changed while the file was written, and the next
+     * save tries again.
+     */
+    async persist(document: vscode.TextDocument, mode: UntitledSaveMode, trigger: SaveTrigger): Promise<vscode.Uri> {
+        const key = document.uri.toString();
+        const running = this.repointing.get(key);
+        if (running) {
+            return running;
+        }
+
+        const target = this.targets.get(key) ?? await this.createTarget(document);
+        this.targets.set(key, target);
+        const version = document.version;
+        await vscode.workspace.fs.writeFile(target, Buffer.from(document.getText(), 'utf8'));
+
+        if (mode === 'mirror' || document.isClosed) {
+            return target;
+        }
+        if (vscode.window.activeTextEditor?.document !== document && trigger !== 'manual') {
+            this.logger.debug('Untitled document written to scratch file, editor replaced once it is active', {
+                uri: key,
+                scratchFile: target.toString(),
+                trigger
+            });
+            return target;
+        }
+
+        const repoint = this.repoint(document, version, target).finally(() => this.repointing.delete(key));
+        this.repointing.set(key, repoint);
+        return repoint;
+    }
+
+    /**
+     * Stops tracking a closed untitled document.
+     */
+    forget(uri: string) {
+        this.targets.delete(uri);
+    }
+
+    /**
+     * Scratch files, newest first.
+     */
+    async list(): Promise<ScratchFile[]> {
+        const directory = this.directory;
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(directory);
+        } catch {
+            return [];
+        }
+
+        const files = await Promise.all(entries
+            .filter(([, type]) => type === vscode.FileType.File)
+            .map(async ([name]) => {
+                const uri = vscode.Uri.joinPath(directory, name);
+                const stat = await vscode.workspace.fs.stat(uri);
+                return { uri, name, mtime: stat.mtime, size: stat.size };
+            }));
+        return files.sort((a, b) => b.mtime - a.mtime);
+    }
+
+    async delete(uris: vscode.Uri[]) {
+        for (const uri of uris) {
+            await vscode.workspace.fs.delete(uri, { useTrash: true });
+        }
+        this.logger.info('Scratch files deleted', { count: uris.length });
+    }
+
+    /**
+     * Deletes scratch files not modified for `maxAgeDays`, except those open in the editor.
+     * Returns the number of files deleted.
+     */
+    async cleanup(maxAgeDays: number): Promise<number> {
+        if (maxAgeDays <= 0) {
+            return 0;
+        }
+
+        const cutoff = Date.now() - maxAgeDays * 86400000;
+        const open = new Set(vscode.workspace.textDocuments.map(document => document.uri.toString()));
+        const expired = (await this.list()).filter(file => file.mtime < cutoff && !open.has(file.uri.toString()));
+        if (expired.length > 0) {
+            await this.delete(expired.map(file => file.uri));
+            this.logger.info('Old scratch files cleaned up', { count: expired.length, maxAgeDays });
+        }
+        return expired.length;
+    }
+
+    private async repoint(document: vscode.TextDocument, version: number, target: vscode.Uri): Promise<vscode.Uri> {
+        const previous = vscode.window.activeTextEditor;
+        const editor = vscode.window.visibleTextEditors.find(visible => visible.document === document);
+        const scratch = await vscode.workspace.openTextDocument(target);
+        if (scratch.languageId !== document.languageId) {
+            await vscode.languages.setTextDocumentLanguage(scratch, document.languageId);
+        }
+
+        // There is no API to give an untitled document a path: close it and open the file in its place.
+        // Closing only works on the active editor, so a manual save of another one brings it forward
+        const inBackground = previous?.document !== document;
+        if (inBackground) {
+            await vscode.window.showTextDocument(document, { viewColumn: editor?.viewColumn, preserveFocus: true });
+        }
+
+        // Typing went on while the file was written; the next save writes it again. Checked
+        // right before the revert, which would discard those changes
+        if (document.version !== version || document.isClosed || vscode.window.activeTextEditor?.document !== document) {
+            return target;
+        }
+        await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+        await vscode.window.showTextDocument(scratch, {
+            viewColumn: editor?.viewColumn,
+            selection: editor?.selection,
+            preview: false,
+            preserveFocus: inBackground
+        });
+        if (inBackground && previous && !previous.document.isClosed) {
+            await vscode.window.showTextDocument(previous.document, { viewColumn: previous.viewColumn, selection: previous.selection });
+        }
+
+        this.targets.delete(document.uri.toString());
+        this.logger.info('Untitled document moved to scratch file', { uri: document.uri.toString(), scratchFile: target.toString() });
+        return target;
+    }
+
+    private async createTarget(document: vscode.TextDocument): Promise<vscode.Uri> {
+        const directory = this.directory;
+        await vscode.workspace.fs.createDirectory(directory);
+
+        const firstLine = document.getText().split(/\r?\n/).find(line => line.trim()) ?? '';
+        const slug = firstLine.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, MAX_SLUG_LENGTH).replace(/-+$/, '');
+        const base = [document.languageId, formatTimestamp(new Date()), slug].filter(part => part).join('-');
+        const extension = this.getExtension(document.languageId);
+
+        // Suffix a counter if a buffer was persisted in the same second with the same first line
+        for (let attempt = 1; ; attempt++) {
+            const candidate = vscode.Uri.joinPath(directory, `${base}${attempt > 1 ? `-${attempt}` : ''}${extension}`);
+            try {
+                await vscode.workspace.fs.stat(candidate);
+            } catch {
+                return candidate;
+            }
+        }
+    }
+
+    /**
+     * The first file extension any installed extension registers for the language,
+     * else its usual extension, else `.txt` so the file still opens as text.
+     */
+    private getExtension(languageId: string): string {
+        let extension = this.extensionsByLanguage.get(languageId);
+        if (extension === undefined) {
+            extension = KNOWN_EXTENSIONS[languageId] ?? '.txt';
+            for (const installed of vscode.extensions.all) {
+                const languages: { id?: string; extensions?: string[] }[] = installed.packageJSON?.contributes?.languages ?? [];
+                const match = languages.find(language => language.id === languageId && language.extensions?.length);
+                if (match?.extensions) {
+                    extension = match.extensions[0];
+                    break;
+                }
+            }
+            this.extensionsByLanguage.set(languageId, extension);
+        }
+        return extension;
+    }
+}
+
+function formatTimestamp(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
@@ -0,0 +1,220 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { Logger } from './logger';
+
+export const SNAPSHOT_SCHEME = 'quick-auto-save-snapshot';
+
+export interface SnapshotEntry {
+    hash: string;
+    size: number;
+    timestamp: number;
+}
+
+export interface SnapshotLimits {
+    maxPerFile: number;
+    maxAgeDays: number;
+    maxTotalMB: number;
+}
+
+interface SnapshotIndex {
+    version: 1;
+    // document uri -> snapshots, oldest first
+    files: Record<string, SnapshotEntry[]>;
+}
+
+/**
+ * Keeps a bounded ring of previous on-disk versions of auto-saved files.
+ *
+ * Content is stored once per hash under `<storage>/snapshots/blobs`, so identical
+ * versions (of the same or different files) share storage. A single index maps each
+ * document URI to its snapshots. Snapshots are also exposed as read-only documents
+ * through the SNAPSHOT_SCHEME content provider so they can be diffed.
+ */
+export class SnapshotStore implements vscode.Disposable, vscode.TextDocumentContentProvider {
+    private root: vscode.Uri;
+    private index: SnapshotIndex | undefined;
+    // Serializes index updates so concurrent saves don't lose entries
+    private queue: Promise<unknown> = Promise.resolve();
+    private registration: vscode.Disposable;
+
+    constructor(context: vscode.ExtensionContext, private logger: Logger) {
+        this.root = vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, 'snapshots');
+        this.registration = vscode.workspace.registerTextDocumentContentProvider(SNAPSHOT_SCHEME, this);
+    }
+
+    /**
+     * Stores the document's current on-disk content as a snapshot, unless it matches
+     * an existing snapshot of the file. `getLimits` resolves the limits for each file
+     * kept, since they can differ between workspace folders. Never throws: a failed
+     * snapshot must not prevent the save.
+     */
+    capture(document: vscode.TextDocument, getLimits: (uri: vscode.Uri) => SnapshotLimits): Promise<void> {
+        if (document.isUntitled || document.uri.scheme === SNAPSHOT_SCHEME) {
+            return Promise.resolve();
+        }
+
+        return this.enqueue(async () => {
+            const uri = document.uri.toString();
+            const index = await this.loadIndex();
+            const entries = index.files[uri] ?? [];
+            const now = Date.now();
+
+            let content: Uint8Array;
+            try {
+                content = await vscode.workspace.fs.readFile(document.uri);
+            } catch (error) {
+                if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                    return;
+                }
+                throw error;
+            }
+
+            const hash = crypto.createHash('sha256').update(content).digest('hex');
+            if (entries.some(entry => entry.hash === hash)) {
+                this.logger.debug('Snapshot skipped, content unchanged', { uri, hash });
+                return;
+            }
+
+            await vscode.workspace.fs.writeFile(this.getBlobUri(hash), content);
+            entries.push({ hash, size: content.byteLength, timestamp: now });
+            index.files[uri] = entries;
+
+            await this.prune(index, getLimits, getLimits(document.uri).maxTotalMB);
+            await this.saveIndex(index);
+            this.logger.debug('Snapshot captured', { uri, hash, size: content.byteLength });
+        }).catch(error => {
+            this.logger.error('Failed to capture snapshot', error instanceof Error ? error : new Error(String(error)), {
+                uri: document.uri.toString()
+            });
+        });
+    }
+
+    /**
+     * Returns the snapshots of a document, newest first.
+     */
+    async getSnapshots(documentUri: vscode.Uri): Promise<SnapshotEntry[]> {
+        const index = await this.enqueue(() => this.loadIndex());
+        return [...(index.files[documentUri.toString()] ?? [])].reverse();
+    }
+
+    /**
+     * Builds a URI that opens the snapshot as a read-only document. The original file
+     * name is kept so the language is detected correctly.
+     */
+    getSnapshotUri(documentUri: vscode.Uri, entry: SnapshotEntry): vscode.Uri {
+        const fileName = path.posix.basename(documentUri.path) || 'snapshot';
+        return vscode.Uri.from({
+            scheme: SNAPSHOT_SCHEME,
+            path: `/${entry.hash}/${fileName}`,
+            query: String(entry.timestamp)
+        });
+    }
+
+    async readSnapshot(entry: SnapshotEntry): Promise<Uint8Array> {
+        return vscode.workspace.fs.readFile(this.getBlobUri(entry.hash));
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const hash = uri.path.split('/')[1];
+        const content = await vscode.workspace.fs.readFile(this.getBlobUri(hash));
+        return Buffer.from(content).toString('utf8');
+    }
+
+    dispose() {
+        this.registration.dispose();
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private getBlobUri(hash: string): vscode.Uri {
+        return vscode.Uri.joinPath(this.root, 'blobs', hash);
+    }
+
+    private async loadIndex(): Promise<SnapshotIndex> {
+        if (this.index) {
+            return this.index;
+        }
+
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.root, 'index.json'));
+            this.index = JSON.parse(Buffer.from(content).toString('utf8')) as SnapshotIndex;
+        } catch (error) {
+            if (!(error instanceof vscode.FileSystemError)) {
+                this.logger.warn('Snapshot index unreadable, starting a new one', { error: String(error) });
+            }
+            this.index = { version: 1, files: {} };
+        }
+        return this.index;
+    }
+
+    private async saveIndex(index: SnapshotIndex) {
+        await vscode.workspace.fs.writeFile(
+            vscode.Uri.joinPath(this.root, 'index.json'),
+            Buffer.from(JSON.stringify(index), 'utf8')
+        );
+    }
+
+    /**
+     * Applies each file's count and age limits and the total size limit, then deletes
+     * blobs no longer referenced by any snapshot.
+     */
+    private async prune(index: SnapshotIndex, getLimits: (uri: vscode.Uri) => SnapshotLimits, maxTotalMB: number) {
+        const now = Date.now();
+        const referenced = new Set<string>();
+        const before = new Set<string>();
+
+        Object.keys(index.files).forEach(uri => {
+            index.files[uri].forEach(entry => before.add(entry.hash));
+            const limits = getLimits(vscode.Uri.parse(uri));
+            const cutoff = now - limits.maxAgeDays * 86400000;
+            const kept = index.files[uri]
+                .filter(entry => entry.timestamp >= cutoff)
+                .slice(-Math.max(1, limits.maxPerFile));
+            if (kept.length > 0) {
+                index.files[uri] = kept;
+            } else {
+                delete index.files[uri];
+            }
+        });
+
+        // Drop the oldest snapshots across all files until the unique content fits
+        const maxBytes = maxTotalMB * 1024 * 1024;
+        const all = Object.entries(index.files)
+            .flatMap(([uri, entries]) => entries.map(entry => ({ uri, entry })))
+            .sort((a, b) => a.entry.timestamp - b.entry.timestamp);
+        const sizes = new Map<string, number>();
+        all.forEach(({ entry }) => sizes.set(entry.hash, entry.size));
+        let totalBytes = Array.from(sizes.values()).reduce((sum, size) => sum + size, 0);
+
+        for (const { uri, entry } of all) {
+            if (totalBytes <= maxBytes) {
+                break;
+            }
+            index.files[uri] = index.files[uri].filter(candidate => candidate !== entry);
+            if (index.files[uri].length === 0) {
+                delete index.files[uri];
+            }
+            const stillReferenced = Object.values(index.files).some(entries => entries.some(candidate => candidate.hash === entry.hash));
+            if (!stillReferenced && sizes.has(entry.hash)) {
+                totalBytes -= sizes.get(entry.hash) ?? 0;
+                sizes.delete(entry.hash);
+            }
+        }
+
+        Object.values(index.files).forEach(entries => entries.forEach(entry => referenced.add(entry.hash)));
+        for (const hash of before) {
+            if (!referenced.has(hash)) {
+                try {
+                    await vscode.workspace.fs.delete(this.getBlobUri(hash));
+                } catch (error) {
+                    this.logger.debug('Failed to delete snapshot blob', { hash, error: String(error) });
+                }
+            }
+        }
+    }
+}
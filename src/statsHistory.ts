@@ -0,0 +1,352 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+
+const GLOBAL_STATE_KEY = 'quickAutoSave.statsHistory';
+const WORKSPACE_STATE_KEY = 'quickAutoSave.fileStatsHistory';
+// When the history of every workspace was last cleared; other workspaces drop their
+// per-file history from before then, since their workspaceState can't be reached
+const CLEARED_AT_KEY = 'quickAutoSave.statsClearedAt';
+// Text documents, or notebooks with their notebook type as language
+type RecordedDocument = Pick<vscode.TextDocument, 'uri' | 'languageId'>;
+
+// Days of history kept before the oldest entries are pruned
+const RETENTION_DAYS = 90;
+// Delay before recorded saves are written to storage
+const FLUSH_DELAY_MS = 5000;
+// Upper bounds (ms) of the latency histogram buckets; the last bucket catches everything slower
+export const LATENCY_BUCKETS_MS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
+
+export type ClearScope = 'workspace' | 'all';
+
+export interface SaveCounts {
+    saves: number;
+    failures: number;
+}
+
+interface WorkspaceBucket extends SaveCounts {
+    workspaceName: string;
+    // Counts per LATENCY_BUCKETS_MS entry, plus one overflow bucket
+    latency: number[];
+    byLanguage: Record<string, SaveCounts>;
+    failureReasons: Record<string, number>;
+}
+
+interface FileBucket extends SaveCounts {
+    totalSaveTimeMs: number;
+    uri?: string;
+}
+
+interface GlobalHistory {
+    version: 1;
+    // day (YYYY-MM-DD) -> workspace id -> bucket
+    days: Record<string, Record<string, WorkspaceBucket>>;
+}
+
+interface FileHistory {
+    version: 1;
+    // When this history was started or last cleared
+    startedAt: number;
+    // day (YYYY-MM-DD) -> workspace-relative file path -> bucket
+    days: Record<string, Record<string, FileBucket>>;
+}
+
+export interface LatencyPercentiles {
+    p50: number;
+    p90: number;
+    p99: number;
+}
+
+export interface HistorySummary extends SaveCounts {
+    days: number;
+    latency: LatencyPercentiles;
+    latencyHistogram: number[];
+    byLanguage: Record<string, SaveCounts>;
+    failureReasons: Record<string, number>;
+    topFiles: { file: string; uri?: string; saves: number; failures: number }[];
+    savesByDay: { day: string; saves: number; failures: number }[];
+}
+
+/**
+ * Persistent save statistics: aggregates per day, workspace and language in
+ * globalState, and per-file counts in workspaceState since file paths only make sense
+ * within their workspace. Latency only counts successful saves, so failures (often
+ * timeouts) don't skew the percentiles.
+ */
+export class StatsHistory implements vscode.Disposable {
+    private global: GlobalHistory;
+    private fileHistory: FileHistory;
+    private flushTimer: NodeJS.Timeout | undefined;
+    private workspaceId: string;
+    private workspaceName: string;
+
+    constructor(private context: vscode.ExtensionContext, private logger: Logger) {
+        this.global = context.globalState.get<GlobalHistory>(GLOBAL_STATE_KEY) ?? { version: 1, days: {} };
+        this.fileHistory = context.workspaceState.get<FileHistory>(WORKSPACE_STATE_KEY) ?? createFileHistory();
+        this.workspaceId = getWorkspaceId();
+        this.workspaceName = vscode.workspace.name ?? 'No Workspace';
+        this.dropClearedFileHistory();
+        this.prune();
+    }
+
+    recordSave(document: RecordedDocument, saveTimeMs: number) {
+        const { workspace, file } = this.getBuckets(document);
+        workspace.saves++;
+        workspace.latency[getLatencyBucket(saveTimeMs)]++;
+        getCounts(workspace.byLanguage, document.languageId).saves++;
+        file.saves++;
+        file.totalSaveTimeMs += saveTimeMs;
+        this.scheduleFlush();
+    }
+
+    // The time a failed save took isn't recorded; it's usually the save timeout
+    recordFailure(document: RecordedDocument, _saveTimeMs: number, error: unknown) {
+        const { workspace, file } = this.getBuckets(document);
+        const reason = getFailureReason(error);
+        workspace.failures++;
+        workspace.failureReasons[reason] = (workspace.failureReasons[reason] ?? 0) + 1;
+        getCounts(workspace.byLanguage, document.languageId).failures++;
+        file.failures++;
+        this.scheduleFlush();
+    }
+
+    /**
+     * Summarizes the current workspace's history over the last `days` days.
+     */
+    getSummary(days: number = RETENTION_DAYS, topFileCount: number = 10): HistorySummary {
+        const since = toDayKey(Date.now() - (days - 1) * 86400000);
+        const summary: HistorySummary = {
+            days,
+            saves: 0,
+            failures: 0,
+            latency: { p50: 0, p90: 0, p99: 0 },
+            latencyHistogram: new Array(LATENCY_BUCKETS_MS.length + 1).fill(0),
+            byLanguage: {},
+            failureReasons: {},
+            topFiles: [],
+            savesByDay: []
+        };
+
+        Object.keys(this.global.days).sort().filter(day => day >= since).forEach(day => {
+            const bucket = this.global.days[day][this.workspaceId];
+            if (!bucket) {
+                return;
+            }
+
+            summary.saves += bucket.saves;
+            summary.failures += bucket.failures;
+            summary.savesByDay.push({ day, saves: bucket.saves, failures: bucket.failures });
+            bucket.latency.forEach((count, index) => summary.latencyHistogram[index] += count);
+            Object.entries(bucket.byLanguage).forEach(([language, counts]) => {
+                const total = getCounts(summary.byLanguage, language);
+                total.saves += counts.saves;
+                total.failures += counts.failures;
+            });
+            Object.entries(bucket.failureReasons).forEach(([reason, count]) => {
+                summary.failureReasons[reason] = (summary.failureReasons[reason] ?? 0) + count;
+            });
+        });
+
+        const fileTotals: Record<string, SaveCounts & { uri?: string }> = {};
+        const files = this.fileHistory.days;
+        Object.keys(files).filter(day => day >= since).forEach(day => {
+            Object.entries(files[day]).forEach(([file, counts]) => {
+                const total = getCounts(fileTotals, file) as SaveCounts & { uri?: string };
+                total.saves += counts.saves;
+                total.failures += counts.failures;
+                total.uri = total.uri ?? counts.uri;
+            });
+        });
+        summary.topFiles = Object.entries(fileTotals)
+            .map(([file, counts]) => ({ file, ...counts }))
+            .sort((a, b) => b.saves - a.saves)
+            .slice(0, topFileCount);
+
+        summary.latency = getPercentiles(summary.latencyHistogram);
+        return summary;
+    }
+
+    toJSON(): object {
+        return {
+            exportedAt: new Date().toISOString(),
+            workspace: { id: this.workspaceId, name: this.workspaceName },
+            latencyBucketsMs: LATENCY_BUCKETS_MS,
+            global: this.global.days,
+            files: this.fileHistory.days
+        };
+    }
+
+    /**
+     * Flattens the history into CSV rows: one row per day and workspace total,
+     * language, failure reason and file of the current workspace.
+     */
+    toCSV(): string {
+        const rows: string[][] = [['date', 'workspace', 'type', 'name', 'saves', 'failures', 'latencyP50Ms', 'latencyP90Ms', 'latencyP99Ms']];
+
+        Object.keys(this.global.days).sort().forEach(day => {
+            Object.values(this.global.days[day]).forEach(bucket => {
+                const latency = getPercentiles(bucket.latency);
+                rows.push([day, bucket.workspaceName, 'total', '', String(bucket.saves), String(bucket.failures),
+                    String(latency.p50), String(latency.p90), String(latency.p99)]);
+                Object.entries(bucket.byLanguage).forEach(([language, counts]) => {
+                    rows.push([day, bucket.workspaceName, 'language', language, String(counts.saves), String(counts.failures), '', '', '']);
+                });
+                Object.entries(bucket.failureReasons).forEach(([reason, count]) => {
+                    rows.push([day, bucket.workspaceName, 'failureReason', reason, '', String(count), '', '', '']);
+                });
+            });
+        });
+
+        const files = this.fileHistory.days;
+        Object.keys(files).sort().forEach(day => {
+            Object.entries(files[day]).forEach(([file, counts]) => {
+                rows.push([day, this.workspaceName, 'file', file, String(counts.saves), String(counts.failures), '', '', '']);
+            });
+        });
+
+        return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+    }
+
+    async clear(scope: ClearScope) {
+        if (scope === 'all') {
+            this.global = { version: 1, days: {} };
+        } else {
+            Object.values(this.global.days).forEach(workspaces => delete workspaces[this.workspaceId]);
+        }
+        this.fileHistory = createFileHistory();
+        this.logger.info('Statistics history cleared', { scope });
+        await this.flush();
+        if (scope === 'all') {
+            await this.context.globalState.update(CLEARED_AT_KEY, this.fileHistory.startedAt);
+        }
+    }
+
+    async flush() {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+
+        try {
+            // Another window may have cleared every workspace since this one loaded
+            this.dropClearedFileHistory();
+            await this.context.globalState.update(GLOBAL_STATE_KEY, this.global);
+            await this.context.workspaceState.update(WORKSPACE_STATE_KEY, this.fileHistory);
+        } catch (error) {
+            this.logger.error('Failed to persist statistics history', error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+
+    /**
+     * Stops the pending flush; call `flush` first to keep what was recorded since the
+     * last one.
+     */
+    dispose() {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+    }
+
+    private getBuckets(document: RecordedDocument): { workspace: WorkspaceBucket; file: FileBucket } {
+        const day = toDayKey(Date.now());
+
+        const workspaces = this.global.days[day] ?? (this.global.days[day] = {});
+        const workspace = workspaces[this.workspaceId] ?? (workspaces[this.workspaceId] = {
+            workspaceName: this.workspaceName,
+            saves: 0,
+            failures: 0,
+            latency: new Array(LATENCY_BUCKETS_MS.length + 1).fill(0),
+            byLanguage: {},
+            failureReasons: {}
+        });
+
+        const fileName = vscode.workspace.asRelativePath(document.uri, true);
+        const fileDays = this.fileHistory.days;
+        const files = fileDays[day] ?? (fileDays[day] = {});
+        const file = files[fileName] ?? (files[fileName] = { saves: 0, failures: 0, totalSaveTimeMs: 0, uri: document.uri.toString() });
+
+        return { workspace, file };
+    }
+
+    private scheduleFlush() {
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+        }
+    }
+
+    private prune() {
+        const cutoff = toDayKey(Date.now() - RETENTION_DAYS * 86400000);
+        [this.global.days, this.fileHistory.days].forEach(days => {
+            Object.keys(days).filter(day => day < cutoff).forEach(day => delete days[day]);
+        });
+    }
+
+    private dropClearedFileHistory() {
+        const clearedAt = this.context.globalState.get<number>(CLEARED_AT_KEY, 0);
+        if (clearedAt > this.fileHistory.startedAt) {
+            this.fileHistory = createFileHistory();
+            this.logger.debug('Per-file statistics dropped, history of every workspace was cleared', { clearedAt });
+        }
+    }
+}
+
+function createFileHistory(): FileHistory {
+    return { version: 1, startedAt: Date.now(), days: {} };
+}
+
+function getWorkspaceId(): string {
+    const workspaceUri = vscode.workspace.workspaceFile ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+    return workspaceUri ? workspaceUri.toString() : 'no-workspace';
+}
+
+function toDayKey(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function getCounts(counts: Record<string, SaveCounts>, key: string): SaveCounts {
+    return counts[key] ?? (counts[key] = { saves: 0, failures: 0 });
+}
+
+function getLatencyBucket(saveTimeMs: number): number {
+    const index = LATENCY_BUCKETS_MS.findIndex(bound => saveTimeMs <= bound);
+    return index === -1 ? LATENCY_BUCKETS_MS.length : index;
+}
+
+/**
+ * Estimates percentiles from the histogram. Each percentile is reported as the upper
+ * bound of the bucket it falls in; the overflow bucket reports the largest bound.
+ */
+function getPercentiles(histogram: number[]): LatencyPercentiles {
+    const total = histogram.reduce((sum, count) => sum + count, 0);
+    const percentile = (fraction: number) => {
+        if (total === 0) {
+            return 0;
+        }
+        let cumulative = 0;
+        for (let index = 0; index < histogram.length; index++) {
+            cumulative += histogram[index];
+            if (cumulative >= fraction * total) {
+                return LATENCY_BUCKETS_MS[Math.min(index, LATENCY_BUCKETS_MS.length - 1)];
+            }
+        }
+        return LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1];
+    };
+    return { p50: percentile(0.5), p90: percentile(0.9), p99: percentile(0.99) };
+}
+
+// Groups failures by error code (e.g. EACCES) when available, otherwise by message
+function getFailureReason(error: unknown): string {
+    const code = (error as NodeJS.ErrnoException)?.code;
+    if (code) {
+        return code;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return message.length > 80 ? `${message.slice(0, 77)}...` : message;
+}
+
+function escapeCsv(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
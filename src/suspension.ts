@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+
+// Why auto-save is suspended: a snooze, a debug session, a running task, another
+// extension or a git operation in progress
+export type SuspensionSource = 'snooze' | 'debug' | 'task' | 'api' | 'git';
+
+export interface Suspension {
+    readonly id: number;
+    readonly source: SuspensionSource;
+    readonly reason: string;
+    // Ends automatically at this time; undefined until released (or the window reloads)
+    readonly until?: number;
+    // Only documents under this folder are affected; undefined suspends every document
+    readonly scope?: vscode.Uri;
+}
+
+export interface SuspendOptions {
+    durationMs?: number;
+    scope?: vscode.Uri;
+}
+
+export interface ContextSuspensionSettings {
+    suspendWhileDebugging: boolean;
+    // Task names that suspend auto-save while they run; '*' matches every task
+    suspendDuringTasks: string[];
+}
+
+/**
+ * Keeps track of everything currently suspending automatic saves. A document is
+ * suspended while at least one suspension without a scope, or with a scope
+ * containing it, is active.
+ */
+export class SuspensionManager implements vscode.Disposable {
+    private suspensions: Map<number, Suspension> = new Map();
+    private expiryTimers: Map<number, NodeJS.Timeout> = new Map();
+    private debugSuspensions: Map<string, Suspension> = new Map();
+    private taskSuspensions: Map<vscode.TaskExecution, Suspension> = new Map();
+    private nextId = 1;
+    private changeEmitter = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private getSettings: () => ContextSuspensionSettings, private logger: Logger) {}
+
+    suspend(source: SuspensionSource, reason: string, options: SuspendOptions = {}): Suspension {
+        const { durationMs, scope } = options;
+        const suspension: Suspension = Object.freeze({
+            id: this.nextId++,
+            source,
+            reason,
+            until: durationMs !== undefined ? Date.now() + durationMs : undefined,
+            scope
+        });
+        this.suspensions.set(suspension.id, suspension);
+
+        if (durationMs !== undefined) {
+            this.expiryTimers.set(suspension.id, setTimeout(() => this.release(suspension.id), durationMs));
+        }
+
+        this.logger.info('Auto-save suspended', {
+            source,
+            reason,
+            until: suspension.until,
+            scope: scope?.toString(),
+            active: this.suspensions.size
+        });
+        this.changeEmitter.fire();
+        return suspension;
+    }
+
+    release(id: number) {
+        const suspension = this.suspensions.get(id);
+        if (!suspension) {
+            return;
+        }
+
+        this.suspensions.delete(id);
+        const timer = this.expiryTimers.get(id);
+        if (timer) {
+            clearTimeout(timer);
+            this.expiryTimers.delete(id);
+        }
+
+        this.logger.info('Auto-save suspension ended', { source: suspension.source, reason: suspension.reason, active: this.suspensions.size });
+        this.changeEmitter.fire();
+    }
+
+    releaseSource(source: SuspensionSource) {
+        this.getActive().filter(suspension => suspension.source === source).forEach(suspension => this.release(suspension.id));
+    }
+
+    /**
+     * True while a suspension applies to every document.
+     */
+    get isSuspended(): boolean {
+        return this.getActive().some(suspension => !suspension.scope);
+    }
+
+    isSuspendedFor(uri: vscode.Uri): boolean {
+        return this.getActive(uri).length > 0;
+    }
+
+    get hasSuspensions(): boolean {
+        return this.suspensions.size > 0;
+    }
+
+    /**
+     * Active suspensions, oldest first; with a URI, only those that apply to it.
+     */
+    getActive(uri?: vscode.Uri): Suspension[] {
+        const active = Array.from(this.suspensions.values());
+        return uri ? active.filter(suspension => !suspension.scope || isUnder(uri, suspension.scope)) : active;
+    }
+
+    /**
+     * Suspends auto-save while debug sessions and configured tasks run, as allowed
+     * by the current settings.
+     */
+    watchDebugAndTasks() {
+        this.disposables.push(
+            vscode.debug.onDidStartDebugSession(session => this.onDebugSessionStarted(session)),
+            vscode.debug.onDidTerminateDebugSession(session => this.endContextSuspension(this.debugSuspensions, session.id)),
+            vscode.tasks.onDidStartTask(event => this.onTaskStarted(event.execution)),
+            vscode.tasks.onDidEndTask(event => this.endContextSuspension(this.taskSuspensions, event.execution))
+        );
+
+        const activeSession = vscode.debug.activeDebugSession;
+        if (activeSession) {
+            this.onDebugSessionStarted(activeSession);
+        }
+        vscode.tasks.taskExecutions.forEach(execution => this.onTaskStarted(execution));
+    }
+
+    /**
+     * Drops debug and task suspensions the settings no longer allow.
+     */
+    refreshSettings() {
+        const settings = this.getSettings();
+        if (!settings.suspendWhileDebugging) {
+            this.debugSuspensions.forEach(suspension => this.release(suspension.id));
+            this.debugSuspensions.clear();
+        }
+        this.taskSuspensions.forEach((suspension, execution) => {
+            if (!matchesTask(execution.task.name, settings.suspendDuringTasks)) {
+                this.endContextSuspension(this.taskSuspensions, execution);
+            }
+        });
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.expiryTimers.forEach(timer => clearTimeout(timer));
+        this.expiryTimers.clear();
+        this.suspensions.clear();
+        this.changeEmitter.dispose();
+    }
+
+    private onDebugSessionStarted(session: vscode.DebugSession) {
+        if (this.getSettings().suspendWhileDebugging && !this.debugSuspensions.has(session.id)) {
+            this.debugSuspensions.set(session.id, this.suspend('debug', `Debugging ${session.name}`));
+        }
+    }
+
+    private onTaskStarted(execution: vscode.TaskExecution) {
+        const name = execution.task.name;
+        if (matchesTask(name, this.getSettings().suspendDuringTasks) && !this.taskSuspensions.has(execution)) {
+            this.taskSuspensions.set(execution, this.suspend('task', `Task ${name} running`));
+        }
+    }
+
+    private endContextSuspension<K>(suspensions: Map<K, Suspension>, key: K) {
+        const suspension = suspensions.get(key);
+        if (suspension) {
+            suspensions.delete(key);
+            this.release(suspension.id);
+        }
+    }
+}
+
+function isUnder(uri: vscode.Uri, folder: vscode.Uri): boolean {
+    if (uri.scheme !== folder.scheme || uri.authority !== folder.authority) {
+        return false;
+    }
+    const folderPath = folder.path.endsWith('/') ? folder.path : `${folder.path}/`;
+    return uri.path === folder.path || uri.path.startsWith(folderPath);
+}
+
+function matchesTask(name: string, patterns: string[]): boolean {
+    return Array.isArray(patterns) && patterns.some(pattern => pattern === '*' || pattern === name);
+}
+
+/**
+ * Formats the time left until `until` as m:ss.
+ */
+export function formatRemaining(until: number): string {
+    const seconds = Math.max(0, Math.ceil((until - Date.now()) / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AdaptiveDelayBounds, CadenceTracker } from '../adaptiveDelay';
+import { createTextDocument } from './vscode';
+
+const BOUNDS: AdaptiveDelayBounds = { minDelay: 100, maxDelay: 2000, fallbackDelay: 200 };
+const URI = 'file:///workspace/a.ts';
+
+describe('CadenceTracker', () => {
+    let tracker: CadenceTracker;
+    const document = (text = 'const a = 1;') => createTextDocument(vscode.Uri.file('/workspace/a.ts'), text) as unknown as vscode.TextDocument;
+
+    // Records changes `interval` ms apart
+    const type = (intervals: number[], start = 0) => {
+        let now = start;
+        tracker.recordChange(URI, now);
+        intervals.forEach(interval => tracker.recordChange(URI, now += interval));
+    };
+
+    beforeEach(() => {
+        tracker = new CadenceTracker();
+    });
+
+    it('uses the fallback delay until enough intervals are known', () => {
+        type([100, 100, 100]);
+        const decision = tracker.computeDelay(URI, document(), BOUNDS);
+        assert.strictEqual(decision.delay, 200);
+        assert.match(decision.reason, /3\/5 samples/);
+    });
+
+    it('waits one and a half times the 90th percentile interval', () => {
+        type([100, 100, 100, 100, 100, 100, 100, 100, 100, 400]);
+        assert.strictEqual(tracker.computeDelay(URI, document(), BOUNDS).delay, 600);
+    });
+
+    it('ignores pauses longer than a typing session gap', () => {
+        type([100, 100, 100, 100, 100, 60000]);
+        const decision = tracker.computeDelay(URI, document(), BOUNDS);
+        assert.strictEqual(decision.delay, 150);
+        assert.match(decision.reason, /5 samples/);
+    });
+
+    it('clamps the delay to the bounds', () => {
+        type([2000, 2000, 2000, 2000, 2000]);
+        const decision = tracker.computeDelay(URI, document(), BOUNDS);
+        assert.strictEqual(decision.delay, 2000);
+        assert.match(decision.reason, /clamped/);
+
+        tracker.forget(URI);
+        type([10, 10, 10, 10, 10]);
+        assert.strictEqual(tracker.computeDelay(URI, document(), BOUNDS).delay, 100);
+    });
+
+    it('backs off for large documents', () => {
+        type([100, 100, 100, 100, 100]);
+        const decision = tracker.computeDelay(URI, document('x'.repeat(400 * 1024)), BOUNDS);
+        // 400K chars is two doublings past 100K: 150ms x3
+        assert.strictEqual(decision.delay, 450);
+    });
+
+    it('lists the latest decisions first', () => {
+        type([100, 100, 100, 100, 100]);
+        tracker.recordChange('file:///workspace/b.ts', 0);
+        tracker.computeDelay(URI, document(), BOUNDS);
+        const recent = tracker.getRecentDecisions(5);
+        assert.deepStrictEqual(recent.map(entry => entry.uri), [URI]);
+    });
+});
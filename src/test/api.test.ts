@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AutoSaveEvent, ExtensionApi, SaveGuardDecision } from '../api';
+import { SuspensionManager } from '../suspension';
+import { RecordingLogger } from './logger';
+import { createTextDocument } from './vscode';
+
+describe('ExtensionApi', () => {
+    let logger: RecordingLogger;
+    let suspensions: SuspensionManager;
+    let api: ExtensionApi;
+    const event = {
+        document: createTextDocument(vscode.Uri.file('/workspace/a.ts'), ''),
+        trigger: 'debounce'
+    } as unknown as AutoSaveEvent;
+
+    beforeEach(() => {
+        logger = new RecordingLogger();
+        suspensions = new SuspensionManager(() => ({ suspendWhileDebugging: false, suspendDuringTasks: [] }), logger);
+        api = new ExtensionApi({ flush: async () => 0, getPending: () => [] }, suspensions, logger);
+    });
+
+    afterEach(() => {
+        api.dispose();
+        suspensions.dispose();
+    });
+
+    it('stays paused until every token is resumed', () => {
+        const first = api.pause('formatting');
+        const second = api.pause('indexing');
+        assert.strictEqual(api.isPaused, true);
+
+        api.resume(first);
+        assert.strictEqual(api.isPaused, true);
+        api.resume(second);
+        assert.strictEqual(api.isPaused, false);
+    });
+
+    it('allows the save without guards', async () => {
+        assert.deepStrictEqual(await api.checkGuards(event), { action: 'allow' });
+    });
+
+    it('lets a veto win over delays', async () => {
+        api.registerSaveGuard(() => ({ action: 'delay', delayMs: 500 }));
+        api.registerSaveGuard(async () => ({ action: 'veto', reason: 'build running' }));
+
+        assert.deepStrictEqual(await api.checkGuards(event), { action: 'veto', reason: 'build running' });
+    });
+
+    it('returns the longest delay, capped at a minute', async () => {
+        api.registerSaveGuard(() => ({ action: 'delay', delayMs: 500, reason: 'short' }));
+        api.registerSaveGuard(() => ({ action: 'delay', delayMs: 120000, reason: 'long' }));
+        api.registerSaveGuard(() => undefined);
+
+        assert.deepStrictEqual(await api.checkGuards(event), { action: 'delay', delayMs: 60000, reason: 'long' });
+    });
+
+    it('treats malformed answers as allowing the save', async () => {
+        api.registerSaveGuard(() => ({ action: 'delay', delayMs: -1 }));
+        api.registerSaveGuard(() => 'veto' as unknown as SaveGuardDecision);
+
+        assert.deepStrictEqual(await api.checkGuards(event), { action: 'allow' });
+    });
+
+    it('ignores a guard that throws', async () => {
+        api.registerSaveGuard(() => {
+            throw new Error('guard broke');
+        });
+
+        assert.deepStrictEqual(await api.checkGuards(event), { action: 'allow' });
+        assert.deepStrictEqual(logger.messages('error'), ['Save guard failed, ignoring it']);
+    });
+
+    it('ignores a guard that does not answer within a second', async () => {
+        api.registerSaveGuard(() => new Promise<SaveGuardDecision>(() => undefined));
+
+        assert.deepStrictEqual(await api.checkGuards(event), { action: 'allow' });
+        assert.deepStrictEqual(logger.messages('warn'), ['Save guard timed out, ignoring it']);
+    });
+
+    it('stops consulting a guard once it is disposed', async () => {
+        const registration = api.registerSaveGuard(() => ({ action: 'veto' }));
+        registration.dispose();
+
+        assert.deepStrictEqual(await api.checkGuards(event), { action: 'allow' });
+    });
+});
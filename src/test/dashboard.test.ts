@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { DashboardData, DashboardPendingSave, StatsDashboard } from '../dashboard';
+import { HistorySummary } from '../statsHistory';
+import { RecordingLogger } from './logger';
+import { FakeWebviewPanel, window } from './vscode';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('StatsDashboard', () => {
+    let pending: DashboardPendingSave[];
+    let cancelled: string[];
+    let dashboard: StatsDashboard;
+
+    const pendingSave = (uri: string): DashboardPendingSave => ({ uri, fileName: uri, createdAt: 0, changeCount: 2, delay: 200, held: false });
+    const updates = (panel: FakeWebviewPanel) => panel.posted as { type: string; data: DashboardData }[];
+    const open = () => {
+        dashboard.show();
+        return window.webviewPanels[window.webviewPanels.length - 1];
+    };
+
+    beforeEach(() => {
+        pending = [pendingSave('file:///workspace/a.ts'), pendingSave('file:///workspace/analysis.ipynb')];
+        cancelled = [];
+        window.webviewPanels = [];
+        dashboard = new StatsDashboard({
+            getData: () => ({
+                session: { totalSaves: 3, successfulSaves: 2, failedSaves: 1, lastSaveTime: 0, sessionStartTime: 0, savesByTrigger: { debounce: 3 } },
+                history: { saves: 2, failures: 1 } as HistorySummary,
+                pending: pending.slice(),
+                adaptiveDelays: []
+            }),
+            cancelPendingSave: uri => {
+                cancelled.push(uri);
+                pending = pending.filter(save => save.uri !== uri);
+            }
+        }, new RecordingLogger());
+    });
+
+    afterEach(() => dashboard.dispose());
+
+    it('opens a single panel', () => {
+        const panel = open();
+        panel.visible = false;
+        dashboard.show();
+
+        assert.strictEqual(window.webviewPanels.length, 1);
+        assert.strictEqual(panel.visible, true);
+    });
+
+    it('sends the data once the webview is ready', () => {
+        const panel = open();
+        panel.receive({ type: 'ready' });
+
+        const [update] = updates(panel);
+        assert.strictEqual(update.type, 'update');
+        assert.strictEqual(update.data.session.totalSaves, 3);
+        assert.deepStrictEqual(update.data.pending.map(save => save.uri), ['file:///workspace/a.ts', 'file:///workspace/analysis.ipynb']);
+    });
+
+    it('cancels a pending save and sends the queue without it', async () => {
+        const panel = open();
+        panel.receive({ type: 'cancelSave', uri: 'file:///workspace/analysis.ipynb' });
+        await sleep(0);
+
+        assert.deepStrictEqual(cancelled, ['file:///workspace/analysis.ipynb']);
+        assert.deepStrictEqual(updates(panel)[0].data.pending.map(save => save.uri), ['file:///workspace/a.ts']);
+    });
+
+    it('sends one update for a burst of refreshes', async () => {
+        const panel = open();
+        dashboard.refresh();
+        dashboard.refresh();
+        dashboard.refresh();
+        assert.strictEqual(panel.posted.length, 0);
+
+        await sleep(300);
+        assert.strictEqual(panel.posted.length, 1);
+    });
+
+    it('skips updates while the panel is hidden or closed', async () => {
+        const panel = open();
+        panel.visible = false;
+        dashboard.refresh();
+        await sleep(300);
+        assert.strictEqual(panel.posted.length, 0);
+
+        panel.dispose();
+        dashboard.refresh();
+        await sleep(300);
+        assert.strictEqual(panel.posted.length, 0);
+    });
+});
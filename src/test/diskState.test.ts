@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DiskStateTracker } from '../diskState';
+import { RecordingLogger } from './logger';
+import { resetWorkspace } from './vscode';
+
+describe('DiskStateTracker', () => {
+    let root: string;
+    let filePath: string;
+    let uri: vscode.Uri;
+    let tracker: DiskStateTracker;
+
+    // Moves the modification time so the tracker has to compare content
+    const touch = (seconds: number) => {
+        const time = new Date(Date.now() + seconds * 1000);
+        fs.utimesSync(filePath, time, time);
+    };
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'quick-auto-save-disk-'));
+        resetWorkspace(root);
+        filePath = path.join(root, 'a.txt');
+        fs.writeFileSync(filePath, 'original');
+        uri = vscode.Uri.file(filePath);
+        tracker = new DiskStateTracker(new RecordingLogger());
+    });
+
+    afterEach(() => {
+        tracker.dispose();
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('reports no change for an untouched file', async () => {
+        await tracker.record(uri);
+        assert.strictEqual(await tracker.hasExternalChange(uri), false);
+    });
+
+    it('ignores a new modification time when the content is the same', async () => {
+        await tracker.record(uri);
+        touch(60);
+        assert.strictEqual(await tracker.hasExternalChange(uri), false);
+    });
+
+    it('reports changed content', async () => {
+        await tracker.record(uri);
+        fs.writeFileSync(filePath, 'modified');
+        touch(60);
+        assert.strictEqual(await tracker.hasExternalChange(uri), true);
+    });
+
+    it('accepts the new content once it is recorded again', async () => {
+        await tracker.record(uri);
+        fs.writeFileSync(filePath, 'checked out from another branch');
+        touch(60);
+        await tracker.record(uri);
+        assert.strictEqual(await tracker.hasExternalChange(uri), false);
+    });
+
+    it('treats a deleted file as unchanged', async () => {
+        await tracker.record(uri);
+        fs.rmSync(filePath);
+        assert.strictEqual(await tracker.hasExternalChange(uri), false);
+    });
+
+    it('reports nothing for files it has not recorded', async () => {
+        fs.writeFileSync(filePath, 'modified');
+        assert.strictEqual(await tracker.hasExternalChange(uri), false);
+    });
+});
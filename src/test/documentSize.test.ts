@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { checkDocumentSize, checkNotebookSize, getDocumentLength } from '../documentSize';
+import { createTextDocument, FakeTextDocument } from './vscode';
+
+const create = (text: string) => createTextDocument(vscode.Uri.file('/workspace/a.txt'), text);
+const asDocument = (document: FakeTextDocument) => document as unknown as vscode.TextDocument;
+
+// A notebook whose cells have the texts and output sizes given
+function createNotebook(cells: { text: string; outputBytes?: number }[]): vscode.NotebookDocument {
+    return {
+        getCells: () => cells.map(cell => ({
+            document: create(cell.text),
+            outputs: cell.outputBytes ? [{ items: [{ data: new Uint8Array(cell.outputBytes) }] }] : []
+        }))
+    } as unknown as vscode.NotebookDocument;
+}
+
+describe('getDocumentLength', () => {
+    it('counts every character, line breaks included', () => {
+        assert.strictEqual(getDocumentLength(asDocument(create('ab\ncd\n'))), 6);
+        assert.strictEqual(getDocumentLength(asDocument(create(''))), 0);
+    });
+});
+
+describe('checkDocumentSize', () => {
+    it('decides from the length alone when it is over the limit', () => {
+        const document = create('a'.repeat(2048));
+        document.getText = () => assert.fail('the text should not be copied');
+
+        assert.deepStrictEqual(checkDocumentSize(asDocument(document), 1), { exceeds: true, sizeKB: 2, exact: false });
+    });
+
+    it('decides from the length alone when even 3 bytes per character fit', () => {
+        const document = create('a'.repeat(256));
+        document.getText = () => assert.fail('the text should not be copied');
+
+        assert.deepStrictEqual(checkDocumentSize(asDocument(document), 1), { exceeds: false, sizeKB: 0.25, exact: false });
+    });
+
+    it('measures the UTF-8 size when the length is inconclusive', () => {
+        // 600 characters of 2 bytes each: under 1 KB by length, over it in UTF-8
+        assert.deepStrictEqual(checkDocumentSize(asDocument(create('é'.repeat(600))), 1), { exceeds: true, sizeKB: 1200 / 1024, exact: true });
+        assert.deepStrictEqual(checkDocumentSize(asDocument(create('a'.repeat(600))), 1), { exceeds: false, sizeKB: 600 / 1024, exact: true });
+    });
+});
+
+describe('checkNotebookSize', () => {
+    it('counts cell outputs along with the text', () => {
+        const notebook = createNotebook([{ text: 'a'.repeat(100) }, { text: 'b'.repeat(100), outputBytes: 1000 }]);
+
+        assert.deepStrictEqual(checkNotebookSize(notebook, 1), { exceeds: true, sizeKB: 1200 / 1024, exact: false });
+        assert.deepStrictEqual(checkNotebookSize(notebook, 2), { exceeds: false, sizeKB: 1200 / 1024, exact: false });
+    });
+
+    it('measures the cell text when the length is inconclusive', () => {
+        const notebook = createNotebook([{ text: 'é'.repeat(200), outputBytes: 500 }]);
+
+        assert.deepStrictEqual(checkNotebookSize(notebook, 1), { exceeds: false, sizeKB: 900 / 1024, exact: true });
+    });
+});
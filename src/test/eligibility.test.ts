@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AutoSaveCheck, AutoSaveEvaluation, getStatusLabel, showEvaluation } from '../eligibility';
+import { commands, createTextDocument, resetWorkspace, window } from './vscode';
+
+const passed: AutoSaveCheck = { id: 'dirty', passed: true, title: 'Has unsaved changes', detail: 'the file has unsaved changes' };
+const excluded: AutoSaveCheck = {
+    id: 'notExcluded',
+    passed: false,
+    title: 'Not excluded',
+    detail: 'matches exclude rule "**/*.log"',
+    link: { setting: 'quickAutoSave.exclude' }
+};
+const tooLarge: AutoSaveCheck = { id: 'size', passed: false, title: 'Small enough', detail: '2048 KB is over the 1024 KB limit' };
+
+describe('AutoSaveEvaluation', () => {
+    it('stops at the first failed check', () => {
+        const evaluation = new AutoSaveEvaluation();
+
+        assert.strictEqual(evaluation.record(passed), true);
+        assert.strictEqual(evaluation.record(excluded), false);
+        assert.strictEqual(evaluation.allowed, false);
+    });
+
+    it('goes on past failed checks when every check was asked for', () => {
+        const evaluation = new AutoSaveEvaluation(true);
+        evaluation.record(excluded);
+
+        assert.strictEqual(evaluation.record(tooLarge), true);
+        assert.deepStrictEqual(evaluation.toLogFields(), {
+            reasons: ['notExcluded', 'size'],
+            details: [excluded.detail, tooLarge.detail]
+        });
+    });
+
+    it('allows the save when every check passed', () => {
+        const evaluation = new AutoSaveEvaluation();
+        evaluation.record(passed);
+
+        assert.strictEqual(evaluation.allowed, true);
+        assert.deepStrictEqual(evaluation.failed, []);
+    });
+});
+
+describe('getStatusLabel', () => {
+    it('labels checks without their own label as excluded', () => {
+        assert.strictEqual(getStatusLabel(tooLarge), 'Too large');
+        assert.strictEqual(getStatusLabel(excluded), 'Excluded');
+    });
+});
+
+describe('showEvaluation', () => {
+    const showQuickPick = window.showQuickPick;
+    const document = createTextDocument(vscode.Uri.file('/workspace/debug.log'), '') as unknown as vscode.TextDocument;
+    let opened: unknown[];
+
+    beforeEach(() => {
+        resetWorkspace('/workspace');
+        opened = [];
+        commands.registerCommand('workbench.action.openSettings', setting => opened.push(setting));
+    });
+
+    afterEach(() => {
+        window.showQuickPick = showQuickPick;
+        commands.handlers.clear();
+    });
+
+    it('lists every check and opens the setting of the one picked', async () => {
+        const evaluation = new AutoSaveEvaluation(true);
+        evaluation.record(passed);
+        evaluation.record(excluded);
+        let placeHolder: string | undefined;
+        window.showQuickPick = async <T>(items: T[], options?: unknown) => {
+            placeHolder = (options as vscode.QuickPickOptions).placeHolder;
+            assert.deepStrictEqual((items as unknown as vscode.QuickPickItem[]).map(item => item.label), [
+                '$(pass) Has unsaved changes',
+                '$(error) Not excluded'
+            ]);
+            return items[1];
+        };
+
+        await showEvaluation(document, evaluation);
+        assert.strictEqual(placeHolder, 'debug.log is not auto-saved: matches exclude rule "**/*.log"');
+        assert.deepStrictEqual(opened, ['quickAutoSave.exclude']);
+    });
+
+    it('does nothing for a check without a link', async () => {
+        const evaluation = new AutoSaveEvaluation();
+        evaluation.record(tooLarge);
+        window.showQuickPick = async <T>(items: T[]) => items[0];
+
+        await showEvaluation(document, evaluation);
+        assert.deepStrictEqual(opened, []);
+    });
+});
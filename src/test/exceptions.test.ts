@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AutoSaveExceptions } from '../exceptions';
+import { RecordingLogger } from './logger';
+import { createExtensionContext, Memento } from './vscode';
+
+const ROOT = path.resolve('/workspace');
+
+describe('AutoSaveExceptions', () => {
+    let workspaceState: Memento;
+    let exceptions: AutoSaveExceptions;
+
+    const file = (relativePath: string) => vscode.Uri.file(path.join(ROOT, relativePath));
+    const create = () => new AutoSaveExceptions(
+        createExtensionContext(path.resolve('/storage'), new Memento(), workspaceState) as unknown as vscode.ExtensionContext,
+        new RecordingLogger()
+    );
+
+    beforeEach(() => {
+        workspaceState = new Memento();
+        exceptions = create();
+    });
+
+    afterEach(() => exceptions.dispose());
+
+    it('covers a disabled file', async () => {
+        await exceptions.add(file('src/a.ts'));
+        assert.strictEqual(exceptions.isDisabled(file('src/a.ts')), true);
+        assert.strictEqual(exceptions.isDisabled(file('src/a.tsx')), false);
+    });
+
+    it('covers everything below a disabled folder', async () => {
+        await exceptions.add(file('src'));
+        assert.strictEqual(exceptions.find(file('src/deep/a.ts')), file('src').toString());
+        assert.strictEqual(exceptions.isDisabled(file('src')), true);
+    });
+
+    it('does not cover siblings sharing the folder name as a prefix', async () => {
+        await exceptions.add(file('src'));
+        assert.strictEqual(exceptions.isDisabled(file('src2/a.ts')), false);
+        assert.strictEqual(exceptions.isDisabled(file('src.ts')), false);
+    });
+
+    it('tells direct exceptions from covered paths', async () => {
+        await exceptions.add(file('src'));
+        assert.strictEqual(exceptions.has(file('src')), true);
+        assert.strictEqual(exceptions.has(file('src/a.ts')), false);
+    });
+
+    it('stores each exception once and persists them', async () => {
+        await exceptions.add(file('a.ts'));
+        await exceptions.add(file('a.ts'));
+        await exceptions.add(file('b.ts'));
+
+        const reloaded = create();
+        assert.deepStrictEqual(reloaded.getAll().map(uri => uri.toString()), [file('a.ts').toString(), file('b.ts').toString()]);
+        reloaded.dispose();
+    });
+
+    it('removes exceptions and reports the change', async () => {
+        let changes = 0;
+        exceptions.onDidChange(() => changes++);
+        await exceptions.add(file('a.ts'));
+        await exceptions.add(file('b.ts'));
+
+        await exceptions.remove([file('a.ts').toString()]);
+        await exceptions.remove(['file:///unknown']);
+        assert.strictEqual(exceptions.isDisabled(file('a.ts')), false);
+        assert.strictEqual(exceptions.isDisabled(file('b.ts')), true);
+        assert.strictEqual(changes, 3);
+    });
+});
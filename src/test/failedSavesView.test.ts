@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { FailedSavesProvider } from '../failedSavesView';
+import { RetryQueue } from '../retryQueue';
+import { RecordingLogger } from './logger';
+import { commands } from './vscode';
+
+describe('FailedSavesProvider', () => {
+    let queue: RetryQueue;
+    let provider: FailedSavesProvider;
+
+    beforeEach(() => {
+        commands.registerCommand('setContext', () => undefined);
+        queue = new RetryQueue(async () => true, () => false, new RecordingLogger());
+        provider = new FailedSavesProvider(queue, () => 3);
+    });
+
+    afterEach(() => {
+        provider.dispose();
+        queue.dispose();
+        commands.handlers.clear();
+    });
+
+    it('shows the error as plain text', () => {
+        queue.recordFailure('file:///workspace/a.ts', 'a.ts', new Error('EACCES: permission denied, open \'/workspace/**a**.ts\''), 3);
+        const item = provider.getTreeItem(queue.getAll()[0]);
+
+        assert.strictEqual(typeof item.tooltip, 'string');
+        assert.ok((item.tooltip as string).includes('Last error: EACCES: permission denied, open \'/workspace/**a**.ts\''));
+        assert.strictEqual(item.description, 'permanent · EACCES: permission denied, open \'/workspace/**a**.ts\'');
+    });
+});
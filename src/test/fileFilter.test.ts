@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FileFilter, FileFilterConfig } from '../fileFilter';
+import { RecordingLogger } from './logger';
+import { resetWorkspace, workspace } from './vscode';
+
+const NO_FILTERS: FileFilterConfig = { include: [], exclude: [], enabledFileTypes: [], excludedFileTypes: [] };
+
+describe('FileFilter', () => {
+    let root: string;
+    let filter: FileFilter;
+
+    const file = (relativePath: string) => vscode.Uri.file(path.join(root, relativePath));
+    const write = (relativePath: string, content: string) => {
+        fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+        fs.writeFileSync(path.join(root, relativePath), content);
+    };
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'quick-auto-save-filter-'));
+        resetWorkspace(root);
+        filter = new FileFilter(new RecordingLogger());
+    });
+
+    afterEach(() => {
+        filter.dispose();
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    describe('include and exclude', () => {
+        it('includes everything when no include rules are set', () => {
+            assert.strictEqual(filter.isIncluded(file('src/a.ts'), NO_FILTERS), true);
+        });
+
+        it('matches include globs against the workspace-relative path', () => {
+            const config = { ...NO_FILTERS, include: ['src/**/*.ts'] };
+            assert.strictEqual(filter.isIncluded(file('src/deep/a.ts'), config), true);
+            assert.strictEqual(filter.isIncluded(file('test/a.ts'), config), false);
+        });
+
+        it('returns the first matching exclude rule', () => {
+            const config = { ...NO_FILTERS, exclude: ['**/generated/**', '**/*.ts'] };
+            assert.strictEqual(filter.findExcludingRule(file('src/generated/a.ts'), config), '**/generated/**');
+            assert.strictEqual(filter.findExcludingRule(file('src/a.js'), config), undefined);
+        });
+
+        it('matches dot files', () => {
+            assert.strictEqual(filter.matchesGlob(file('.github/workflows/ci.yml'), '**/*.yml'), true);
+        });
+
+        it('treats extension lists as suffixes, including multi-part extensions', () => {
+            const config = { ...NO_FILTERS, excludedFileTypes: ['.d.ts', 'LOG'] };
+            assert.strictEqual(filter.findExcludingRule(file('types/index.d.ts'), config), '.d.ts');
+            assert.strictEqual(filter.findExcludingRule(file('out/build.log'), config), 'LOG');
+            assert.strictEqual(filter.findExcludingRule(file('src/index.ts'), config), undefined);
+        });
+
+        it('answers for the rules passed in, not those of an earlier call', () => {
+            // The same file under other folder or language settings
+            const uri = file('src/a.ts');
+            assert.strictEqual(filter.isIncluded(uri, { ...NO_FILTERS, include: ['**/*.js'] }), false);
+            assert.strictEqual(filter.isIncluded(uri, { ...NO_FILTERS, include: ['**/*.ts'] }), true);
+            assert.strictEqual(filter.findExcludingRule(uri, NO_FILTERS), undefined);
+            assert.strictEqual(filter.findExcludingRule(uri, { ...NO_FILTERS, exclude: ['src/**'] }), 'src/**');
+        });
+    });
+
+    describe('ignore files', () => {
+        it('applies .gitignore rules from the workspace root', () => {
+            write('.gitignore', 'dist/\n*.tmp\n');
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(file('dist/a.js')), true);
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(file('src/a.tmp')), true);
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(file('src/a.js')), false);
+        });
+
+        it('lets deeper ignore files re-include what the root ignores', () => {
+            write('.gitignore', '*.json\n');
+            write('config/.gitignore', '!settings.json\n');
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(file('config/settings.json')), false);
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(file('config/other.json')), true);
+        });
+
+        it('reads .git/info/exclude of the workspace root', () => {
+            write('.git/info/exclude', 'scratch.txt\n');
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(file('scratch.txt')), true);
+        });
+
+        it('ignores nothing outside the workspace folders or the file scheme', () => {
+            write('.gitignore', '*\n');
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(vscode.Uri.file(path.join(os.tmpdir(), 'elsewhere.txt'))), false);
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(vscode.Uri.parse('untitled:Untitled-1')), false);
+        });
+
+        it('picks up a changed .gitignore once the watcher reports it', () => {
+            write('.gitignore', '');
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(file('a.log')), false);
+
+            write('.gitignore', '*.log\n');
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(file('a.log')), false, 'cached until the watcher fires');
+            workspace.watchers[0].changed.fire(file('.gitignore'));
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(file('a.log')), true);
+        });
+
+        it('picks up a changed .git/info/exclude once the watcher reports it', () => {
+            write('.git/info/exclude', '');
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(file('notes.md')), false);
+
+            write('.git/info/exclude', 'notes.md\n');
+            const excludeWatcher = workspace.watchers.find(watcher => String(watcher.pattern).includes('.git/info/exclude'))!;
+            excludeWatcher.changed.fire(file('.git/info/exclude'));
+            assert.strictEqual(filter.isIgnoredByIgnoreFiles(file('notes.md')), true);
+        });
+    });
+});
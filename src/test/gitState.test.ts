@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { getCachedConflictMarkers, hasConflictMarkers } from '../gitState';
+import { createTextDocument, FakeTextDocument } from './vscode';
+
+describe('hasConflictMarkers', () => {
+    const create = (text: string) => createTextDocument(vscode.Uri.file('/workspace/a.ts'), text);
+    const check = (document: FakeTextDocument) => hasConflictMarkers(document as unknown as vscode.TextDocument);
+
+    it('finds a start and an end marker', () => {
+        assert.strictEqual(check(create('a\n<<<<<<< HEAD\nb\n=======\nc\n>>>>>>> feature\nd')), true);
+    });
+
+    it('needs both markers, in order', () => {
+        assert.strictEqual(check(create('<<<<<<< HEAD\nb')), false);
+        assert.strictEqual(check(create('>>>>>>> feature\n<<<<<<< HEAD')), false);
+    });
+
+    it('ignores markers that do not start a line and Markdown underlines', () => {
+        assert.strictEqual(check(create('Title\n=======\n  <<<<<<< HEAD\n  >>>>>>> feature')), false);
+    });
+
+    it('reuses the result until the document changes', () => {
+        const document = create('<<<<<<< HEAD\n>>>>>>> feature');
+        const cached = () => getCachedConflictMarkers(document as unknown as vscode.TextDocument);
+        assert.strictEqual(cached(), undefined);
+
+        assert.strictEqual(check(document), true);
+        assert.strictEqual(cached(), true);
+
+        document.setText('resolved');
+        assert.strictEqual(cached(), undefined);
+        assert.strictEqual(check(document), false);
+        assert.strictEqual(cached(), false);
+    });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { QuickAutoSaveLogger } from '../logger';
+import { resetWorkspace, workspace } from './vscode';
+
+describe('QuickAutoSaveLogger', () => {
+    let root: string;
+    let logger: QuickAutoSaveLogger;
+    const consoleLog = console.log;
+    const consoleError = console.error;
+
+    const messages = async () => (await logger.getRecentRecords(1000)).map(record => record.message);
+
+    // Logs records adding up to about `kilobytes`, written to the file as one batch
+    const logBatch = async (name: string, kilobytes: number) => {
+        for (let index = 0; index < kilobytes; index++) {
+            logger.info(`${name} ${index}`, { padding: 'x'.repeat(900) });
+        }
+        await logger.getRecentRecords(0);
+    };
+
+    beforeEach(() => {
+        resetWorkspace();
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'quick-auto-save-logs-'));
+        console.log = () => undefined;
+        console.error = () => undefined;
+    });
+
+    afterEach(() => {
+        logger.dispose();
+        console.log = consoleLog;
+        console.error = consoleError;
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('drops records below the configured level', async () => {
+        workspace.configuration = { logLevel: 'warn' };
+        logger = new QuickAutoSaveLogger();
+
+        logger.info('hidden');
+        logger.warn('shown');
+        logger.error('failed', new Error('boom'));
+        assert.deepStrictEqual(await messages(), ['shown', 'failed']);
+    });
+
+    it('still turns on debug output with enableDebugLogging', async () => {
+        workspace.configuration = { logLevel: 'info', enableDebugLogging: true };
+        logger = new QuickAutoSaveLogger();
+
+        logger.debug('details');
+        logger.trace('more details');
+        assert.deepStrictEqual(await messages(), ['details']);
+    });
+
+    it('falls back to info for an unknown level', async () => {
+        workspace.configuration = { logLevel: 'verbose' };
+        logger = new QuickAutoSaveLogger();
+
+        logger.debug('details');
+        logger.info('saved');
+        assert.deepStrictEqual(await messages(), ['saved']);
+    });
+
+    it('writes JSON lines and reads them back in a later session', async () => {
+        workspace.configuration = { logToFile: true };
+        logger = new QuickAutoSaveLogger(vscode.Uri.file(root));
+        logger.info('saved', { uri: 'file:///a.ts' });
+        await logger.getRecentRecords(0);
+        logger.dispose();
+
+        logger = new QuickAutoSaveLogger(vscode.Uri.file(root));
+        const [record] = await logger.getRecentRecords(10);
+        assert.strictEqual(record.message, 'saved');
+        assert.deepStrictEqual(record.fields, { uri: 'file:///a.ts' });
+        assert.strictEqual(fs.readFileSync(path.join(root, 'quick-auto-save.jsonl'), 'utf8').split('\n').length, 2);
+    });
+
+    it('rotates the file past the size limit and keeps only the newest files', async () => {
+        workspace.configuration = { logToFile: true, logFileMaxSizeKB: 16, logFileMaxFiles: 2 };
+        logger = new QuickAutoSaveLogger(vscode.Uri.file(root));
+
+        await logBatch('first', 10);
+        await logBatch('second', 10);
+        await logBatch('third', 10);
+
+        assert.deepStrictEqual(fs.readdirSync(root).sort(), ['quick-auto-save.1.jsonl', 'quick-auto-save.jsonl']);
+        const logged = await messages();
+        assert.strictEqual(logged[0], 'second 0');
+        assert.strictEqual(logged[logged.length - 1], 'third 9');
+    });
+
+    it('skips lines cut off in the log file', async () => {
+        fs.writeFileSync(path.join(root, 'quick-auto-save.jsonl'), '{"timestamp":"t","level":"info","message":"kept"}\n{"timestamp":"t","lev');
+        workspace.configuration = { logToFile: true };
+        logger = new QuickAutoSaveLogger(vscode.Uri.file(root));
+
+        assert.deepStrictEqual(await messages(), ['kept']);
+    });
+});
@@ -0,0 +1,38 @@
+import { LogFields, Logger, LogLevel } from '../logger';
+
+export interface RecordedLog {
+    level: LogLevel;
+    message: string;
+    fields?: LogFields;
+}
+
+/**
+ * A Logger that keeps its records for assertions.
+ */
+export class RecordingLogger implements Logger {
+    readonly records: RecordedLog[] = [];
+
+    info(message: string, fields?: LogFields) {
+        this.records.push({ level: 'info', message, fields });
+    }
+
+    warn(message: string, fields?: LogFields) {
+        this.records.push({ level: 'warn', message, fields });
+    }
+
+    error(message: string, error?: Error, fields?: LogFields) {
+        this.records.push({ level: 'error', message, fields: { ...fields, error: error?.message } });
+    }
+
+    debug(message: string, fields?: LogFields) {
+        this.records.push({ level: 'debug', message, fields });
+    }
+
+    trace(message: string, fields?: LogFields) {
+        this.records.push({ level: 'trace', message, fields });
+    }
+
+    messages(level?: LogLevel): string[] {
+        return this.records.filter(record => !level || record.level === level).map(record => record.message);
+    }
+}
@@ -0,0 +1,168 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { SaveTrigger } from '../api';
+import { AutoSaveEvaluation } from '../eligibility';
+import { NotebookAutoSaveHost, NotebookAutoSaver, toProfileTarget } from '../notebooks';
+import { SaveProfile } from '../profiles';
+import { SuspensionManager } from '../suspension';
+import { RecordingLogger } from './logger';
+import { workspace } from './vscode';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('NotebookAutoSaver', () => {
+    const notebook = {
+        uri: vscode.Uri.file('/workspace/analysis.ipynb'),
+        notebookType: 'jupyter-notebook',
+        cellCount: 2
+    } as unknown as vscode.NotebookDocument;
+
+    let saves: SaveTrigger[];
+    let profile: SaveProfile;
+    let allowed: boolean;
+    let saveOnOutputChange: boolean;
+    let flushOnResume: boolean;
+    let suspensions: SuspensionManager;
+    let saver: NotebookAutoSaver;
+
+    // A cell edit, or with `outputs` the result of running a cell
+    const change = (outputs = false) => workspace.notebookChanged.fire({
+        notebook,
+        contentChanges: [],
+        metadata: undefined,
+        cellChanges: [outputs ? { document: undefined, metadata: undefined, outputs: [] } : { document: {}, metadata: undefined }]
+    });
+
+    beforeEach(() => {
+        saves = [];
+        profile = {
+            enabled: true,
+            saveDelay: 50,
+            delayMode: 'fixed',
+            saveOnEveryChange: false,
+            saveUntitled: false,
+            maxFileSizeKB: 1024,
+            showNotifications: false,
+            holdOnErrors: false,
+            source: 'default'
+        };
+        allowed = true;
+        saveOnOutputChange = false;
+        flushOnResume = true;
+
+        const host: NotebookAutoSaveHost = {
+            isEnabled: () => true,
+            evaluate: () => {
+                const evaluation = new AutoSaveEvaluation();
+                evaluation.record({ id: 'size', passed: allowed, title: 'Small enough', detail: allowed ? 'small enough' : 'too large' });
+                return evaluation;
+            },
+            getProfile: () => profile,
+            getDelay: () => ({ delay: profile.saveDelay, reason: 'fixed (default)' }),
+            saveOnOutputChange: () => saveOnOutputChange,
+            flushOnResume: () => flushOnResume,
+            save: async (_notebook, trigger) => {
+                saves.push(trigger);
+                return true;
+            },
+            refresh: () => undefined
+        };
+        const logger = new RecordingLogger();
+        suspensions = new SuspensionManager(() => ({ suspendWhileDebugging: false, suspendDuringTasks: [] }), logger);
+        saver = new NotebookAutoSaver(host, suspensions, logger);
+        saver.watch();
+    });
+
+    afterEach(() => {
+        saver.dispose();
+        suspensions.dispose();
+    });
+
+    it('saves once after a burst of cell edits', async () => {
+        change();
+        change();
+        assert.strictEqual(saver.pendingCount, 1);
+        assert.strictEqual(saver.getPending(notebook.uri.toString())?.changeCount, 2);
+
+        await sleep(80);
+        assert.deepStrictEqual(saves, ['debounce']);
+        assert.strictEqual(saver.pendingCount, 0);
+    });
+
+    it('schedules a save again with its trigger when delayed', async () => {
+        saver.delay(notebook, 'focusChange', 30, 'build running');
+        assert.strictEqual(saver.getPending(notebook.uri.toString())?.delayReason, 'save guard: build running');
+
+        await sleep(50);
+        assert.deepStrictEqual(saves, ['focusChange']);
+        assert.strictEqual(saver.pendingCount, 0);
+    });
+
+    it('ignores running cells unless output changes are saved', () => {
+        change(true);
+        assert.strictEqual(saver.pendingCount, 0);
+
+        saveOnOutputChange = true;
+        change(true);
+        assert.strictEqual(saver.pendingCount, 1);
+    });
+
+    it('saves on every change when the profile asks for it', async () => {
+        profile.saveOnEveryChange = true;
+        change();
+        await sleep(0);
+
+        assert.deepStrictEqual(saves, ['immediate']);
+        assert.strictEqual(saver.pendingCount, 0);
+    });
+
+    it('skips a notebook that fails its checks', () => {
+        allowed = false;
+        change();
+
+        assert.strictEqual(saver.pendingCount, 0);
+    });
+
+    it('drops the pending save when the notebook is saved or closed', () => {
+        change();
+        workspace.notebookSaved.fire(notebook);
+        assert.strictEqual(saver.pendingCount, 0);
+
+        change();
+        workspace.notebookClosed.fire(notebook);
+        assert.strictEqual(saver.pendingCount, 0);
+    });
+
+    it('holds a save while suspended and runs it on resume', async () => {
+        const suspension = suspensions.suspend('snooze', 'Snoozed');
+        change();
+        await sleep(80);
+        assert.deepStrictEqual(saves, []);
+        assert.strictEqual(saver.getPending(notebook.uri.toString())?.deferred, true);
+
+        suspensions.release(suspension.id);
+        await sleep(0);
+        assert.deepStrictEqual(saves, ['debounce']);
+    });
+
+    it('drops a held save on resume when deferred saves are not flushed', async () => {
+        flushOnResume = false;
+        const suspension = suspensions.suspend('snooze', 'Snoozed');
+        change();
+        await sleep(80);
+
+        suspensions.release(suspension.id);
+        await sleep(0);
+        assert.deepStrictEqual(saves, []);
+        assert.strictEqual(saver.pendingCount, 0);
+    });
+});
+
+describe('toProfileTarget', () => {
+    it('uses the notebook type as the language of a notebook', () => {
+        const uri = vscode.Uri.file('/workspace/analysis.ipynb');
+        const target = toProfileTarget({ uri, notebookType: 'jupyter-notebook' } as unknown as vscode.NotebookDocument);
+
+        assert.deepStrictEqual(target, { uri, languageId: 'jupyter-notebook' });
+    });
+});
@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FileFilter } from '../fileFilter';
+import { PostSaveActionRule, PostSaveActions, quoteForShell, redactPostSaveActionRule, substituteVariables } from '../postSaveActions';
+import { RecordingLogger } from './logger';
+import { createTaskExecution, resetWorkspace, tasks } from './vscode';
+
+const ROOT = path.resolve('/workspace');
+
+describe('substituteVariables', () => {
+    const file = (relativePath: string) => vscode.Uri.file(path.join(ROOT, relativePath));
+
+    beforeEach(() => resetWorkspace(ROOT));
+
+    it('replaces the variables of the last saved file', () => {
+        const value = substituteVariables('${relativeFile} ${fileBasenameNoExtension} ${fileExtname} ${unknown}', [file('a.ts'), file('src/b.ts')], value => value);
+        assert.strictEqual(value, `${path.join('src', 'b.ts')} b .ts \${unknown}`);
+    });
+
+    it('quotes every value, including each file of ${files}', () => {
+        const value = substituteVariables('lint ${files} --cwd ${workspaceFolder}', [file('a b.ts'), file('c.ts')], value => `[${value}]`);
+        assert.strictEqual(value, `lint [${path.join(ROOT, 'a b.ts')}] [${path.join(ROOT, 'c.ts')}] --cwd [${ROOT}]`);
+    });
+});
+
+describe('quoteForShell', () => {
+    it('single-quotes values for sh, escaping single quotes', () => {
+        assert.strictEqual(quoteForShell('/tmp/$(touch x) `id`.ts', 'linux'), `'/tmp/$(touch x) \`id\`.ts'`);
+        assert.strictEqual(quoteForShell(`it's.ts`, 'darwin'), `'it'\\''s.ts'`);
+    });
+
+    it('double-quotes values for cmd.exe', () => {
+        assert.strictEqual(quoteForShell('C:\\a & b.ts', 'win32'), '"C:\\a & b.ts"');
+    });
+});
+
+describe('redactPostSaveActionRule', () => {
+    it('hides shell commands and command arguments', () => {
+        assert.deepStrictEqual(redactPostSaveActionRule({ name: 'deploy', shell: 'curl -H "token: abc" ${file}' }), { name: 'deploy', shell: '<redacted>' });
+        assert.deepStrictEqual(redactPostSaveActionRule({ command: 'ext.upload', args: ['abc'] }), { command: 'ext.upload', args: '<redacted>' });
+        assert.deepStrictEqual(redactPostSaveActionRule({ task: 'build' }), { task: 'build' });
+    });
+});
+
+describe('PostSaveActions', () => {
+    let root: string;
+    let logger: RecordingLogger;
+    let fileFilter: FileFilter;
+    let actions: PostSaveActions;
+    let rules: PostSaveActionRule[];
+    const executeTask = tasks.executeTask;
+
+    // Saves the files and waits for the coalesced run to finish
+    const saveAndRun = async (...names: string[]) => {
+        names.forEach(name => actions.onDidSave({ uri: vscode.Uri.file(path.join(root, name)), languageId: 'typescript' }));
+        for (let waited = 0; waited < 4000; waited += 50) {
+            if (logger.messages().some(message => message === 'Post-save action finished' || message === 'Post-save action failed')) {
+                return;
+            }
+            await new Promise(resolve => setTimeout(resolve, 50));
+        }
+        assert.fail('The post-save action did not run');
+    };
+    const failure = () => logger.records.find(record => record.message === 'Post-save action failed');
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'quick-auto-save-actions-'));
+        resetWorkspace(root);
+        logger = new RecordingLogger();
+        fileFilter = new FileFilter(logger);
+        rules = [];
+        actions = new PostSaveActions(() => rules, fileFilter, logger);
+    });
+
+    afterEach(() => {
+        actions.dispose();
+        fileFilter.dispose();
+        tasks.executeTask = executeTask;
+        tasks.available = [];
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    if (process.platform !== 'win32') {
+        it('passes file names to the shell as plain arguments', async function () {
+            this.timeout(5000);
+            rules = [{ shell: 'printf "<%s>" ${files}' }];
+            await saveAndRun('a $(touch pwned).ts', `b'; touch pwned; '.ts`);
+
+            const output = logger.records.find(record => record.message === 'Post-save shell command output');
+            assert.strictEqual(output?.fields?.stdout, `<${path.join(root, 'a $(touch pwned).ts')}><${path.join(root, `b'; touch pwned; '.ts`)}>`);
+            assert.strictEqual(fs.existsSync(path.join(root, 'pwned')), false);
+        });
+    }
+
+    it('waits for a task that ends before executeTask resolves', async function () {
+        this.timeout(5000);
+        tasks.available = [{ name: 'lint' }];
+        tasks.executeTask = async task => {
+            const execution = createTaskExecution(task);
+            tasks.processEnded.fire({ execution, exitCode: 2 });
+            tasks.taskEnded.fire({ execution });
+            return execution;
+        };
+        rules = [{ task: 'lint' }];
+        await saveAndRun('a.ts');
+
+        assert.strictEqual(failure()?.fields?.error, 'Task "lint" exited with code 2');
+    });
+
+    it('refuses background tasks', async function () {
+        this.timeout(5000);
+        tasks.available = [{ name: 'watch', isBackground: true }];
+        rules = [{ task: 'watch' }];
+        await saveAndRun('a.ts');
+
+        assert.strictEqual(failure()?.fields?.error, 'Task "watch" is a background task');
+    });
+});
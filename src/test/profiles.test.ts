@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FileFilter } from '../fileFilter';
+import { OverrideRule, resolveSaveProfile, validateOverrideRule } from '../profiles';
+import { RecordingLogger } from './logger';
+import { createConfiguration, resetWorkspace } from './vscode';
+
+const ROOT = path.resolve('/workspace');
+
+describe('resolveSaveProfile', () => {
+    let filter: FileFilter;
+
+    const resolve = (relativePath: string, languageId: string, settings: Record<string, unknown>) => resolveSaveProfile(
+        { uri: vscode.Uri.file(path.join(ROOT, relativePath)), languageId },
+        createConfiguration(settings) as unknown as vscode.WorkspaceConfiguration,
+        filter
+    );
+
+    beforeEach(() => {
+        resetWorkspace(ROOT);
+        filter = new FileFilter(new RecordingLogger());
+    });
+
+    afterEach(() => filter.dispose());
+
+    it('uses the global settings when no rule matches', () => {
+        const profile = resolve('src/a.ts', 'typescript', {
+            saveDelay: 500,
+            overrides: [{ languageId: 'markdown', saveDelay: 2000 }]
+        });
+        assert.strictEqual(profile.saveDelay, 500);
+        assert.strictEqual(profile.source, 'default');
+    });
+
+    it('layers the first matching rule over the global settings', () => {
+        const overrides: OverrideRule[] = [
+            { pattern: 'docs/**', saveDelay: 3000, showNotifications: true },
+            { languageId: 'markdown', saveDelay: 1000 }
+        ];
+        const profile = resolve('docs/guide.md', 'markdown', { saveDelay: 200, holdOnErrors: true, overrides });
+        assert.strictEqual(profile.saveDelay, 3000);
+        assert.strictEqual(profile.showNotifications, true);
+        assert.strictEqual(profile.holdOnErrors, true, 'options the rule leaves out keep their global value');
+        assert.strictEqual(profile.source, 'overrides[0]');
+    });
+
+    it('requires both languageId and pattern to match when a rule sets both', () => {
+        const overrides: OverrideRule[] = [{ languageId: ['typescript', 'javascript'], pattern: 'test/**', saveDelay: 5000 }];
+        assert.strictEqual(resolve('test/a.ts', 'typescript', { overrides }).saveDelay, 5000);
+        assert.strictEqual(resolve('src/a.ts', 'typescript', { overrides }).saveDelay, 200);
+        assert.strictEqual(resolve('test/a.py', 'python', { overrides }).saveDelay, 200);
+    });
+
+    it('ignores options of the wrong type', () => {
+        const overrides = [{ languageId: 'typescript', saveDelay: '1000', enabled: false }] as unknown as OverrideRule[];
+        const profile = resolve('src/a.ts', 'typescript', { overrides });
+        assert.strictEqual(profile.saveDelay, 200);
+        assert.strictEqual(profile.enabled, false);
+    });
+
+    it('falls back to a fixed delay for an unknown delayMode', () => {
+        const overrides = [{ languageId: 'typescript', delayMode: 'foo' }, { languageId: 'typescript', saveDelay: 700 }] as unknown as OverrideRule[];
+        const profile = resolve('src/a.ts', 'typescript', { delayMode: 'bar', overrides });
+        assert.strictEqual(profile.delayMode, 'fixed');
+        assert.strictEqual(profile.source, 'overrides[1]');
+    });
+
+    it('skips invalid rules', () => {
+        const overrides: OverrideRule[] = [{ saveDelay: 5000 }, { languageId: 'typescript' }, { languageId: 'typescript', saveDelay: 700 }];
+        const profile = resolve('src/a.ts', 'typescript', { overrides });
+        assert.strictEqual(profile.saveDelay, 700);
+        assert.strictEqual(profile.source, 'overrides[2]');
+    });
+});
+
+describe('validateOverrideRule', () => {
+    it('describes what makes a rule unusable', () => {
+        assert.strictEqual(validateOverrideRule({ saveDelay: 100 }), 'must specify a languageId or pattern');
+        assert.strictEqual(validateOverrideRule({ pattern: '**/*.md' }), 'does not override any option');
+        assert.strictEqual(validateOverrideRule({ pattern: '**/*.md', saveOnEveryChange: true }), undefined);
+        assert.strictEqual(validateOverrideRule({ pattern: '**/*.md', delayMode: 'foo' } as unknown as OverrideRule), 'has an unknown delayMode "foo"');
+        assert.strictEqual(validateOverrideRule({ pattern: '**/*.md', delayMode: 'adaptive' }), undefined);
+    });
+});
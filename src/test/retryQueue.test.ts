@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import { classifyError, RetryQueue } from '../retryQueue';
+import { RecordingLogger } from './logger';
+
+const URI = 'file:///workspace/a.ts';
+
+describe('RetryQueue', () => {
+    let queue: RetryQueue;
+    let suspended: boolean;
+    let retries: string[];
+    // What the next retry does; by default it saves
+    let retry: (uri: string) => boolean;
+
+    // Lets the retry started by the queue finish
+    const settle = () => new Promise(resolve => setImmediate(resolve));
+
+    beforeEach(() => {
+        suspended = false;
+        retries = [];
+        retry = () => true;
+        queue = new RetryQueue(async uri => {
+            retries.push(uri);
+            return retry(uri);
+        }, () => suspended, new RecordingLogger());
+    });
+
+    afterEach(() => queue.dispose());
+
+    it('schedules a retry for transient failures', () => {
+        queue.recordFailure(URI, 'a.ts', new Error('EBUSY: resource busy'), 3);
+        assert.ok(queue.getAll()[0].nextRetryAt);
+    });
+
+    it('does not schedule retries for permanent failures or past the limit', () => {
+        queue.recordFailure(URI, 'a.ts', new Error('EACCES: permission denied'), 3);
+        assert.strictEqual(queue.getAll()[0].nextRetryAt, undefined);
+
+        queue.recordFailure('file:///workspace/b.ts', 'b.ts', new Error('busy'), 0);
+        assert.strictEqual(queue.getAll()[1].nextRetryAt, undefined);
+    });
+
+    it('removes the entry once the retry succeeds', async () => {
+        queue.recordFailure(URI, 'a.ts', new Error('busy'), 3);
+        queue.retryNow(URI);
+        await settle();
+        assert.deepStrictEqual(retries, [URI]);
+        assert.strictEqual(queue.size, 0);
+    });
+
+    it('drops the entry when the retry is skipped without failing', async () => {
+        // e.g. a save guard vetoed the save
+        retry = () => false;
+        queue.recordFailure(URI, 'a.ts', new Error('busy'), 3);
+        queue.retryNow(URI);
+        await settle();
+
+        assert.strictEqual(queue.size, 0);
+    });
+
+    it('keeps the entry when the retry fails again', async () => {
+        retry = uri => {
+            queue.recordFailure(uri, 'a.ts', new Error('still busy'), 3);
+            return false;
+        };
+        queue.recordFailure(URI, 'a.ts', new Error('busy'), 3);
+        queue.retryNow(URI);
+        await settle();
+
+        const [entry] = queue.getAll();
+        assert.strictEqual(entry.retryCount, 1);
+        assert.strictEqual(entry.lastError, 'still busy');
+        assert.ok(entry.nextRetryAt);
+    });
+
+    it('holds a retry while suspended and runs it on resume', async () => {
+        queue.recordFailure(URI, 'a.ts', new Error('busy'), 3);
+        suspended = true;
+        queue.retryNow(URI);
+        await settle();
+        assert.deepStrictEqual(retries, []);
+
+        queue.resumeWaiting();
+        await settle();
+        assert.deepStrictEqual(retries, [], 'still suspended');
+
+        suspended = false;
+        queue.resumeWaiting();
+        await settle();
+        assert.deepStrictEqual(retries, [URI]);
+        assert.strictEqual(queue.size, 0);
+    });
+
+    it('forgets a held retry when the entry is removed', async () => {
+        queue.recordFailure(URI, 'a.ts', new Error('busy'), 3);
+        suspended = true;
+        queue.retryNow(URI);
+        await settle();
+        queue.remove(URI);
+
+        suspended = false;
+        queue.resumeWaiting();
+        await settle();
+        assert.deepStrictEqual(retries, []);
+    });
+});
+
+describe('classifyError', () => {
+    it('treats permission and read-only errors as permanent', () => {
+        assert.strictEqual(classifyError(Object.assign(new Error('denied'), { code: 'EACCES' })), 'permanent');
+        assert.strictEqual(classifyError(new Error('Unable to write file (read-only file system)')), 'permanent');
+    });
+
+    it('treats everything else as transient', () => {
+        assert.strictEqual(classifyError(new Error('Save operation timed out')), 'transient');
+        assert.strictEqual(classifyError('EBUSY'), 'transient');
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SaveHistoryProvider } from '../saveHistoryView';
+import { SaveTimeline } from '../saveTimeline';
+import { RecordingLogger } from './logger';
+import { createExtensionContext, createTextDocument, resetWorkspace, window } from './vscode';
+
+const ROOT = path.resolve('/workspace');
+
+describe('SaveHistoryProvider', () => {
+    let timeline: SaveTimeline;
+    let provider: SaveHistoryProvider;
+
+    const file = (name: string) => vscode.Uri.file(path.join(ROOT, name));
+    const focus = (uri: vscode.Uri) => window.setActiveTextEditor({ document: createTextDocument(uri, '') });
+    const labels = () => provider.getChildren().map(entry => provider.getTreeItem(entry).label);
+
+    beforeEach(() => {
+        resetWorkspace(ROOT);
+        const context = createExtensionContext(path.resolve('/storage')) as unknown as vscode.ExtensionContext;
+        timeline = new SaveTimeline(context, new RecordingLogger());
+        focus(file('a.ts'));
+        provider = new SaveHistoryProvider(timeline);
+    });
+
+    afterEach(() => {
+        provider.dispose();
+        timeline.dispose();
+        window.setActiveTextEditor(undefined);
+    });
+
+    it('lists the events of the active file, newest first', () => {
+        timeline.record(file('a.ts'), { kind: 'saved', trigger: 'debounce', changeCount: 3, saveTimeMs: 8 });
+        timeline.record(file('b.ts'), { kind: 'saved', trigger: 'debounce' });
+        timeline.record(file('a.ts'), { kind: 'failed', trigger: 'focusChange', reason: 'EBUSY' });
+
+        assert.deepStrictEqual(labels(), ['Auto-save failed', 'Auto-saved']);
+        const item = provider.getTreeItem(provider.getChildren()[1]);
+        assert.match(item.description as string, /debounce · 3 changes · 8ms$/);
+        assert.deepStrictEqual(item.command?.arguments, [file('a.ts'), provider.getChildren()[1].id]);
+    });
+
+    it('follows the active editor and refreshes on new events', () => {
+        let refreshes = 0;
+        provider.onDidChangeTreeData(() => refreshes++);
+        timeline.record(file('b.ts'), { kind: 'skipped', trigger: 'debounce', reason: 'Vetoed by save guard' });
+        assert.strictEqual(refreshes, 0);
+
+        focus(file('b.ts'));
+        assert.deepStrictEqual(labels(), ['Auto-save skipped']);
+        timeline.record(file('b.ts'), { kind: 'saved', trigger: 'manual' });
+        assert.strictEqual(refreshes, 2);
+    });
+
+    it('keeps the last file while no editor is active', () => {
+        timeline.record(file('a.ts'), { kind: 'saved', trigger: 'debounce' });
+        window.setActiveTextEditor(undefined);
+        assert.deepStrictEqual(labels(), ['Auto-saved']);
+    });
+
+    it('keeps a bounded number of events per file', () => {
+        for (let i = 0; i < 60; i++) {
+            timeline.record(file('a.ts'), { kind: 'saved', trigger: 'debounce', saveTimeMs: i });
+        }
+        const entries = timeline.getEntries(file('a.ts'));
+        assert.strictEqual(entries.length, 50);
+        assert.strictEqual(entries[0].saveTimeMs, 59);
+    });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { saveWithoutParticipants } from '../saveParticipants';
+import { commands, createTextDocument, FakeTextDocument, window } from './vscode';
+
+const SAVE_WITHOUT_FORMATTING = 'workbench.action.files.saveWithoutFormatting';
+
+describe('saveWithoutParticipants', () => {
+    let document: FakeTextDocument;
+
+    beforeEach(() => {
+        document = createTextDocument(vscode.Uri.file('/workspace/a.ts'), 'a', 'typescript');
+        document.setText('ab');
+        window.activeTextEditor = { document };
+    });
+
+    afterEach(() => {
+        window.activeTextEditor = undefined;
+        commands.handlers.clear();
+    });
+
+    it('skips participants for the active editor', async () => {
+        commands.registerCommand(SAVE_WITHOUT_FORMATTING, () => document.save());
+        assert.strictEqual(await saveWithoutParticipants(document as unknown as vscode.TextDocument), 'participantsSkipped');
+        assert.strictEqual(document.isDirty, false);
+    });
+
+    it('falls back to a regular save for other documents', async () => {
+        window.activeTextEditor = { document: createTextDocument(vscode.Uri.file('/workspace/b.ts'), 'b') };
+        assert.strictEqual(await saveWithoutParticipants(document as unknown as vscode.TextDocument), 'participantsRan');
+        assert.strictEqual(document.isDirty, false);
+    });
+
+    it('succeeds when the document was edited during the save', async () => {
+        commands.registerCommand(SAVE_WITHOUT_FORMATTING, async () => {
+            await document.save();
+            document.setText('abc');
+        });
+        assert.strictEqual(await saveWithoutParticipants(document as unknown as vscode.TextDocument), 'participantsSkipped');
+    });
+
+    it('fails when the document is still dirty at the same version', async () => {
+        commands.registerCommand(SAVE_WITHOUT_FORMATTING, () => undefined);
+        await assert.rejects(saveWithoutParticipants(document as unknown as vscode.TextDocument), /Save without formatting was not completed/);
+    });
+});
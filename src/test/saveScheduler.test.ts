@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { SaveScheduler } from '../saveScheduler';
+import { RecordingLogger } from './logger';
+
+interface Deferred {
+    promise: Promise<boolean>;
+    resolve: (result: boolean) => void;
+}
+
+function defer(): Deferred {
+    let resolve!: (result: boolean) => void;
+    const promise = new Promise<boolean>(done => { resolve = done; });
+    return { promise, resolve };
+}
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('SaveScheduler', () => {
+    let scheduler: SaveScheduler;
+    let started: string[];
+
+    // A save that records its start and finishes when the test resolves it
+    const save = (name: string, done = defer()) => () => {
+        started.push(name);
+        return done.promise;
+    };
+
+    beforeEach(() => {
+        started = [];
+        scheduler = new SaveScheduler(() => ({ maxConcurrentSaves: 1, maxSavesPerSecond: 100 }), new RecordingLogger());
+    });
+
+    afterEach(() => scheduler.dispose());
+
+    it('coalesces requests for a document waiting in the queue', async () => {
+        const first = defer();
+        scheduler.schedule('a', save('a1', first));
+        const second = scheduler.schedule('b', save('b1'));
+        const third = scheduler.schedule('b', save('b2'));
+
+        assert.strictEqual(second, third);
+        assert.strictEqual(scheduler.pendingCount, 1);
+        first.resolve(true);
+        await settle();
+        assert.deepStrictEqual(started, ['a1', 'b1']);
+    });
+
+    it('upgrades a coalesced save to the higher-priority request', async () => {
+        const first = defer();
+        scheduler.schedule('a', save('a1', first));
+        scheduler.schedule('b', save('debounce'), 0);
+        scheduler.schedule('b', save('manual'), 3);
+        scheduler.schedule('b', save('interval'), 0);
+
+        first.resolve(true);
+        await settle();
+        assert.deepStrictEqual(started, ['a1', 'manual']);
+    });
+
+    it('never runs two saves of the same document at once', async () => {
+        scheduler = new SaveScheduler(() => ({ maxConcurrentSaves: 4, maxSavesPerSecond: 100 }), new RecordingLogger());
+        const first = defer();
+        scheduler.schedule('a', save('a1', first));
+        scheduler.schedule('a', save('a2'));
+        scheduler.schedule('b', save('b1'));
+
+        await settle();
+        assert.deepStrictEqual(started, ['a1', 'b1']);
+        assert.strictEqual(scheduler.pendingCount, 1);
+
+        first.resolve(true);
+        await settle();
+        assert.deepStrictEqual(started, ['a1', 'b1', 'a2']);
+    });
+
+    it('limits how many saves run at once', async () => {
+        scheduler = new SaveScheduler(() => ({ maxConcurrentSaves: 2, maxSavesPerSecond: 100 }), new RecordingLogger());
+        const first = defer();
+        scheduler.schedule('a', save('a', first));
+        scheduler.schedule('b', save('b'));
+        scheduler.schedule('c', save('c'));
+
+        assert.deepStrictEqual(started, ['a', 'b']);
+        assert.strictEqual(scheduler.runningCount, 2);
+        first.resolve(true);
+        await settle();
+        assert.deepStrictEqual(started, ['a', 'b', 'c']);
+    });
+
+    it('passes on the result of the save', async () => {
+        const done = defer();
+        const result = scheduler.schedule('a', save('a', done));
+        done.resolve(false);
+        assert.strictEqual(await result, false);
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { checkScheme, DEFAULT_DENIED_SCHEMES, SchemeLatencyTracker, SchemePolicySettings } from '../schemePolicy';
+import { RecordingLogger } from './logger';
+
+const SETTINGS: SchemePolicySettings = {
+    allowedSchemes: [],
+    deniedSchemes: DEFAULT_DENIED_SCHEMES,
+    schemeDelays: {},
+    slowSaveThresholdMs: 250
+};
+
+describe('checkScheme', () => {
+    it('allows every scheme that is not denied when no schemes are allowed explicitly', () => {
+        assert.strictEqual(checkScheme('file', SETTINGS).allowed, true);
+        assert.strictEqual(checkScheme('vscode-remote', SETTINGS).allowed, true);
+    });
+
+    it('denies the default read-only and internal schemes', () => {
+        const decision = checkScheme('git', SETTINGS);
+        assert.strictEqual(decision.allowed, false);
+        assert.strictEqual(decision.setting, 'quickAutoSave.deniedSchemes');
+    });
+
+    it('only allows listed schemes when the allow list is set', () => {
+        const settings = { ...SETTINGS, allowedSchemes: ['file'] };
+        assert.strictEqual(checkScheme('file', settings).allowed, true);
+        const decision = checkScheme('vscode-remote', settings);
+        assert.strictEqual(decision.allowed, false);
+        assert.strictEqual(decision.setting, 'quickAutoSave.allowedSchemes');
+    });
+
+    it('lets the deny list win over the allow list', () => {
+        assert.strictEqual(checkScheme('git', { ...SETTINGS, allowedSchemes: ['git'] }).allowed, false);
+    });
+});
+
+describe('SchemeLatencyTracker', () => {
+    let logger: RecordingLogger;
+    let tracker: SchemeLatencyTracker;
+
+    const record = (scheme: string, ...times: number[]) => times.forEach(time => tracker.record(scheme, time, SETTINGS.slowSaveThresholdMs));
+
+    beforeEach(() => {
+        logger = new RecordingLogger();
+        tracker = new SchemeLatencyTracker(logger);
+    });
+
+    it('waits for enough samples before averaging', () => {
+        record('vscode-remote', 1000, 1000);
+        assert.strictEqual(tracker.getAverage('vscode-remote'), undefined);
+        assert.deepStrictEqual(tracker.adjustDelay('vscode-remote', 500, SETTINGS), { delay: 500 });
+    });
+
+    it('widens the delay of a slow scheme to a multiple of its average save time', () => {
+        record('vscode-remote', 300, 400, 500);
+        const adjusted = tracker.adjustDelay('vscode-remote', 500, SETTINGS);
+        assert.strictEqual(adjusted.delay, 2000);
+        assert.match(adjusted.reason!, /slow vscode-remote saves, 400ms average/);
+    });
+
+    it('caps the widened delay', () => {
+        record('vscode-remote', 5000, 5000, 5000);
+        assert.strictEqual(tracker.adjustDelay('vscode-remote', 500, SETTINGS).delay, 10000);
+    });
+
+    it('leaves fast schemes and other schemes alone', () => {
+        record('file', 5, 10, 15);
+        record('vscode-remote', 1000, 1000, 1000);
+        assert.deepStrictEqual(tracker.adjustDelay('file', 500, SETTINGS), { delay: 500 });
+    });
+
+    it('does not widen when the threshold is 0', () => {
+        record('vscode-remote', 1000, 1000, 1000);
+        assert.deepStrictEqual(tracker.adjustDelay('vscode-remote', 500, { ...SETTINGS, slowSaveThresholdMs: 0 }), { delay: 500 });
+    });
+
+    it('raises the delay to the configured scheme minimum', () => {
+        const scheme = 'vscode-remote';
+        const settings = { ...SETTINGS, schemeDelays: { [scheme]: 1500 } };
+        assert.deepStrictEqual(tracker.adjustDelay(scheme, 500, settings), { delay: 1500, reason: 'schemeDelays.vscode-remote' });
+        assert.deepStrictEqual(tracker.adjustDelay(scheme, 2000, settings), { delay: 2000 });
+    });
+
+    it('restores the delay once saves are fast again', () => {
+        record('vscode-remote', 1000, 1000, 1000);
+        record('vscode-remote', ...Array(20).fill(10));
+        assert.deepStrictEqual(tracker.adjustDelay('vscode-remote', 500, SETTINGS), { delay: 500 });
+        assert.deepStrictEqual(logger.messages('info'), [
+            'Saves are slow, widening the debounce delay',
+            'Saves are fast again, restoring the debounce delay'
+        ]);
+    });
+});
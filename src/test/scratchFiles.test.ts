@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ScratchFiles } from '../scratchFiles';
+import { RecordingLogger } from './logger';
+import { commands, createExtensionContext, createTextDocument, extensions, FakeTextDocument, window, workspace } from './vscode';
+
+describe('ScratchFiles', () => {
+    let root: string;
+    let scratchFiles: ScratchFiles;
+    let document: FakeTextDocument;
+    let reverted: number;
+    const writeFile = workspace.fs.writeFile;
+
+    const persist = (trigger: 'debounce' | 'focusChange' | 'manual') =>
+        scratchFiles.persist(document as unknown as vscode.TextDocument, 'repoint', trigger);
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'quick-auto-save-scratch-'));
+        const context = createExtensionContext(root) as unknown as vscode.ExtensionContext;
+        scratchFiles = new ScratchFiles(context, () => '', new RecordingLogger());
+        document = createTextDocument(vscode.Uri.parse('untitled:Untitled-1'), 'import requests\nprint(1)', 'python');
+        reverted = 0;
+        commands.registerCommand('workbench.action.revertAndCloseActiveEditor', () => {
+            reverted++;
+            document.isClosed = true;
+        });
+    });
+
+    afterEach(() => {
+        window.activeTextEditor = undefined;
+        window.shownDocuments = [];
+        workspace.fs.writeFile = writeFile;
+        extensions.all = [];
+        commands.handlers.clear();
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('names the file after the language, time and first line', async () => {
+        const file = await persist('focusChange');
+        assert.match(path.basename(file.fsPath), /^python-\d{8}-\d{6}-import-requests\.py$/);
+        assert.strictEqual(fs.readFileSync(file.fsPath, 'utf8'), 'import requests\nprint(1)');
+    });
+
+    it('only writes the file when the untitled editor is in the background', async () => {
+        // Re-pointing would open the file in an editor, which the fake doesn't support
+        window.activeTextEditor = { document: createTextDocument(vscode.Uri.file('/workspace/other.py'), '') };
+        const first = await persist('focusChange');
+
+        document.setText('import requests\nprint(2)');
+        const second = await persist('debounce');
+        assert.strictEqual(second.toString(), first.toString());
+        assert.strictEqual(fs.readFileSync(second.fsPath, 'utf8'), 'import requests\nprint(2)');
+    });
+
+    it('uses the extension an installed extension registers first, or .txt for unknown languages', async () => {
+        extensions.all = [{ packageJSON: { contributes: { languages: [{ id: 'python', extensions: ['.pyw', '.py'] }] } } }];
+        assert.match(path.basename((await persist('focusChange')).fsPath), /\.pyw$/);
+
+        document = createTextDocument(vscode.Uri.parse('untitled:Untitled-2'), 'notes', 'some-language');
+        assert.match(path.basename((await persist('focusChange')).fsPath), /^some-language-\d{8}-\d{6}-notes\.txt$/);
+    });
+
+    it('replaces the active untitled editor with the scratch file', async () => {
+        window.activeTextEditor = { document };
+        const file = await persist('debounce');
+
+        assert.strictEqual(reverted, 1);
+        const [scratch] = window.shownDocuments as FakeTextDocument[];
+        assert.strictEqual(scratch.uri.toString(), file.toString());
+        assert.strictEqual(scratch.languageId, 'python');
+    });
+
+    it('keeps the untitled editor when it is edited while the file is written', async () => {
+        window.activeTextEditor = { document };
+        workspace.fs.writeFile = async (uri, content) => {
+            await writeFile(uri, content);
+            document.setText('import requests\nprint(2)');
+        };
+        const file = await persist('debounce');
+
+        assert.strictEqual(reverted, 0);
+        assert.strictEqual(document.isClosed, false);
+        assert.deepStrictEqual(window.shownDocuments, []);
+        assert.strictEqual(fs.readFileSync(file.fsPath, 'utf8'), 'import requests\nprint(1)');
+    });
+});
@@ -0,0 +1,9 @@
+import * as path from 'path';
+import Module = require('module');
+
+// Resolve `require('vscode')` to the fake API, since the tests run outside the editor
+const loader = Module as unknown as { _resolveFilename(request: string, ...rest: unknown[]): string };
+const resolveFilename = loader._resolveFilename;
+loader._resolveFilename = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? path.join(__dirname, 'vscode.js') : resolveFilename.call(this, request, ...rest);
+};
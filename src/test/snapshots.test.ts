@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SnapshotLimits, SnapshotStore } from '../snapshots';
+import { RecordingLogger } from './logger';
+import { createExtensionContext, createTextDocument, resetWorkspace } from './vscode';
+
+const LIMITS: SnapshotLimits = { maxPerFile: 10, maxAgeDays: 30, maxTotalMB: 100 };
+const DAY_MS = 86400000;
+
+describe('SnapshotStore', () => {
+    let root: string;
+    let store: SnapshotStore;
+    let now: number;
+    const realNow = Date.now;
+
+    const blobs = () => fs.readdirSync(path.join(root, 'storage', 'workspace', 'snapshots', 'blobs')).sort();
+    // Writes the file and snapshots its on-disk content
+    const capture = async (name: string, content: string, limits: SnapshotLimits | ((uri: vscode.Uri) => SnapshotLimits) = LIMITS) => {
+        const filePath = path.join(root, name);
+        fs.writeFileSync(filePath, content);
+        const document = createTextDocument(vscode.Uri.file(filePath), content) as unknown as vscode.TextDocument;
+        await store.capture(document, typeof limits === 'function' ? limits : () => limits);
+        now += 1000;
+        return document.uri;
+    };
+    const sizes = async (uri: vscode.Uri) => (await store.getSnapshots(uri)).map(entry => entry.size);
+
+    beforeEach(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'quick-auto-save-snapshots-'));
+        resetWorkspace(root);
+        now = realNow();
+        Date.now = () => now;
+        const context = createExtensionContext(path.join(root, 'storage')) as unknown as vscode.ExtensionContext;
+        store = new SnapshotStore(context, new RecordingLogger());
+    });
+
+    afterEach(() => {
+        Date.now = realNow;
+        store.dispose();
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('keeps only the newest snapshots of a file', async () => {
+        const limits = { ...LIMITS, maxPerFile: 2 };
+        await capture('a.txt', 'a');
+        await capture('a.txt', 'aa', limits);
+        const uri = await capture('a.txt', 'aaa', limits);
+
+        assert.deepStrictEqual(await sizes(uri), [3, 2]);
+        assert.strictEqual(blobs().length, 2);
+    });
+
+    it('keeps the snapshots of other files to their own limits', async () => {
+        const getLimits = (uri: vscode.Uri) => path.basename(uri.fsPath) === 'b.txt' ? { ...LIMITS, maxPerFile: 1 } : LIMITS;
+        await capture('a.txt', 'a');
+        const first = await capture('a.txt', 'aa');
+        await capture('b.txt', 'b', getLimits);
+        const second = await capture('b.txt', 'bb', getLimits);
+
+        assert.deepStrictEqual(await sizes(first), [2, 1]);
+        assert.deepStrictEqual(await sizes(second), [2]);
+    });
+
+    it('drops snapshots older than the maximum age', async () => {
+        await capture('a.txt', 'a');
+        now += 2 * DAY_MS;
+        const uri = await capture('a.txt', 'aa', { ...LIMITS, maxAgeDays: 1 });
+
+        assert.deepStrictEqual(await sizes(uri), [2]);
+        assert.strictEqual(blobs().length, 1);
+    });
+
+    it('drops the oldest snapshots across files until the total size fits', async () => {
+        const first = await capture('a.txt', 'x'.repeat(600));
+        const second = await capture('b.txt', 'y'.repeat(600));
+        const third = await capture('c.txt', 'z'.repeat(600), { ...LIMITS, maxTotalMB: 1300 / (1024 * 1024) });
+
+        assert.deepStrictEqual(await sizes(first), []);
+        assert.deepStrictEqual(await sizes(second), [600]);
+        assert.deepStrictEqual(await sizes(third), [600]);
+        assert.strictEqual(blobs().length, 2);
+    });
+
+    it('keeps a blob shared by another file', async () => {
+        await capture('a.txt', 'same');
+        const first = await capture('a.txt', 'changed');
+        // Pushes a.txt's first snapshot past the limit, but b.txt still uses its content
+        const second = await capture('b.txt', 'same', { ...LIMITS, maxPerFile: 1 });
+
+        assert.deepStrictEqual(await sizes(first), [7]);
+        assert.deepStrictEqual(await sizes(second), [4]);
+        assert.strictEqual(blobs().length, 2);
+    });
+
+    it('skips content matching an existing snapshot of the file', async () => {
+        await capture('a.txt', 'one');
+        await capture('a.txt', 'two');
+        const uri = await capture('a.txt', 'one');
+
+        assert.deepStrictEqual(await sizes(uri), [3, 3]);
+        assert.strictEqual(blobs().length, 2);
+    });
+
+    it('keeps a version captured right after the previous one', async () => {
+        await capture('a.txt', 'the whole file');
+        now -= 1000;
+        // Saved again within the same second, e.g. after selecting all and deleting
+        const uri = await capture('a.txt', '');
+
+        assert.deepStrictEqual(await sizes(uri), [0, 14]);
+    });
+});
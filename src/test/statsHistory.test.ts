@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { StatsHistory } from '../statsHistory';
+import { RecordingLogger } from './logger';
+import { createExtensionContext, Memento, resetWorkspace } from './vscode';
+
+const STORAGE = path.resolve('/storage');
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('StatsHistory', () => {
+    let globalState: Memento;
+    // Per folder, like VS Code's workspaceState
+    let workspaceStates: Map<string, Memento>;
+    let histories: StatsHistory[];
+
+    const open = (folder: string) => {
+        resetWorkspace(folder);
+        const workspaceState = workspaceStates.get(folder) ?? new Memento();
+        workspaceStates.set(folder, workspaceState);
+        const context = createExtensionContext(STORAGE, globalState, workspaceState) as unknown as vscode.ExtensionContext;
+        const history = new StatsHistory(context, new RecordingLogger());
+        histories.push(history);
+        return history;
+    };
+    const document = (folder: string, name: string) => ({ uri: vscode.Uri.file(path.join(folder, name)), languageId: 'typescript' });
+
+    beforeEach(() => {
+        globalState = new Memento();
+        workspaceStates = new Map();
+        histories = [];
+    });
+
+    afterEach(() => histories.forEach(history => history.dispose()));
+
+    it('leaves failed saves out of the latency percentiles', () => {
+        const folder = path.resolve('/projects/a');
+        const history = open(folder);
+        for (let i = 0; i < 10; i++) {
+            history.recordSave(document(folder, 'a.ts'), 8);
+        }
+        history.recordFailure(document(folder, 'a.ts'), 30000, new Error('Save operation timed out'));
+
+        const summary = history.getSummary(1);
+        assert.strictEqual(summary.saves, 10);
+        assert.strictEqual(summary.failures, 1);
+        assert.deepStrictEqual(summary.latency, { p50: 10, p90: 10, p99: 10 });
+        assert.strictEqual(summary.latencyHistogram.reduce((sum, count) => sum + count, 0), 10);
+        assert.deepStrictEqual(Object.entries(summary.failureReasons), [['Save operation timed out', 1]]);
+    });
+
+    it('clears the per-file history of the current workspace only', async () => {
+        const first = path.resolve('/projects/a');
+        const second = path.resolve('/projects/b');
+        const a = open(first);
+        a.recordSave(document(first, 'a.ts'), 5);
+        await a.flush();
+        const b = open(second);
+        b.recordSave(document(second, 'b.ts'), 5);
+
+        await b.clear('workspace');
+        assert.deepStrictEqual(b.getSummary(1).topFiles, []);
+        assert.deepStrictEqual(open(first).getSummary(1).topFiles.map(file => file.file), ['a.ts']);
+    });
+
+    it('keeps per-file history in the workspace', async () => {
+        const folder = path.resolve('/projects/a');
+        const history = open(folder);
+        history.recordSave(document(folder, 'a.ts'), 5);
+        await history.flush();
+
+        assert.strictEqual(globalState.get('quickAutoSave.fileStatsHistory'), undefined);
+        assert.deepStrictEqual(open(folder).getSummary(1).topFiles.map(file => file.file), ['a.ts']);
+    });
+
+    it('drops the per-file history of other workspaces once every workspace is cleared', async () => {
+        const first = path.resolve('/projects/a');
+        const second = path.resolve('/projects/b');
+        const a = open(first);
+        a.recordSave(document(first, 'a.ts'), 5);
+        await a.flush();
+
+        await sleep(5);
+        await open(second).clear('all');
+        const reopened = open(first).getSummary(1);
+        assert.strictEqual(reopened.saves, 0);
+        assert.deepStrictEqual(reopened.topFiles, []);
+    });
+
+    it('drops cleared per-file history from a window that was open during the clear', async () => {
+        const first = path.resolve('/projects/a');
+        const second = path.resolve('/projects/b');
+        const a = open(first);
+        a.recordSave(document(first, 'a.ts'), 5);
+
+        await sleep(5);
+        await open(second).clear('all');
+        await a.flush();
+        assert.deepStrictEqual(open(first).getSummary(1).topFiles, []);
+    });
+
+    it('writes nothing more once disposed', async () => {
+        const folder = path.resolve('/projects/a');
+        const history = open(folder);
+        history.recordSave(document(folder, 'a.ts'), 5);
+        history.dispose();
+
+        await sleep(10);
+        assert.strictEqual(workspaceStates.get(folder)!.get('quickAutoSave.fileStatsHistory'), undefined);
+    });
+});
@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ContextSuspensionSettings, formatRemaining, SuspensionManager } from '../suspension';
+import { RecordingLogger } from './logger';
+import { createTaskExecution, debug, tasks } from './vscode';
+
+describe('SuspensionManager', () => {
+    let manager: SuspensionManager;
+    let settings: ContextSuspensionSettings;
+    let changes: number;
+
+    beforeEach(() => {
+        settings = { suspendWhileDebugging: true, suspendDuringTasks: ['build'] };
+        changes = 0;
+        manager = new SuspensionManager(() => settings, new RecordingLogger());
+        manager.onDidChange(() => changes++);
+    });
+
+    afterEach(() => {
+        manager.dispose();
+        debug.activeDebugSession = undefined;
+        tasks.taskExecutions = [];
+    });
+
+    it('stays suspended until every suspension is released', () => {
+        const first = manager.suspend('snooze', 'Snoozed');
+        const second = manager.suspend('api', 'Paused by another extension');
+        assert.strictEqual(manager.isSuspended, true);
+
+        manager.release(first.id);
+        assert.strictEqual(manager.isSuspended, true);
+        manager.release(second.id);
+        assert.strictEqual(manager.isSuspended, false);
+        assert.strictEqual(changes, 4);
+    });
+
+    it('ignores releasing a suspension twice', () => {
+        const suspension = manager.suspend('snooze', 'Snoozed');
+        manager.release(suspension.id);
+        manager.release(suspension.id);
+
+        assert.strictEqual(changes, 2);
+    });
+
+    it('releases every suspension from a source', () => {
+        manager.suspend('git', 'Rebasing');
+        manager.suspend('git', 'Merging');
+        manager.suspend('snooze', 'Snoozed');
+
+        manager.releaseSource('git');
+        assert.deepStrictEqual(manager.getActive().map(suspension => suspension.source), ['snooze']);
+    });
+
+    it('applies a scoped suspension only to documents under its folder', () => {
+        manager.suspend('git', 'Rebasing', { scope: vscode.Uri.file('/workspace/repo') });
+
+        assert.strictEqual(manager.isSuspended, false);
+        assert.strictEqual(manager.hasSuspensions, true);
+        assert.strictEqual(manager.isSuspendedFor(vscode.Uri.file('/workspace/repo/src/a.ts')), true);
+        assert.strictEqual(manager.isSuspendedFor(vscode.Uri.file('/workspace/repo')), true);
+        assert.strictEqual(manager.isSuspendedFor(vscode.Uri.file('/workspace/repository/a.ts')), false);
+        assert.strictEqual(manager.isSuspendedFor(vscode.Uri.parse('untitled:/workspace/repo/a.ts')), false);
+    });
+
+    it('ends a suspension when its duration is up', async () => {
+        const suspension = manager.suspend('snooze', 'Snoozed', { durationMs: 20 });
+        assert.ok(suspension.until! > Date.now());
+        assert.strictEqual(manager.isSuspended, true);
+
+        await new Promise(resolve => setTimeout(resolve, 40));
+        assert.strictEqual(manager.isSuspended, false);
+    });
+
+    it('suspends while a debug session runs, including one already running', () => {
+        debug.activeDebugSession = { id: 'first', name: 'Launch' };
+        manager.watchDebugAndTasks();
+        assert.deepStrictEqual(manager.getActive().map(suspension => suspension.reason), ['Debugging Launch']);
+
+        debug.sessionStarted.fire({ id: 'second', name: 'Attach' });
+        debug.sessionTerminated.fire({ id: 'first', name: 'Launch' });
+        assert.deepStrictEqual(manager.getActive().map(suspension => suspension.reason), ['Debugging Attach']);
+
+        debug.sessionTerminated.fire({ id: 'second', name: 'Attach' });
+        assert.strictEqual(manager.hasSuspensions, false);
+    });
+
+    it('does not suspend while debugging when the setting is off', () => {
+        settings.suspendWhileDebugging = false;
+        manager.watchDebugAndTasks();
+
+        debug.sessionStarted.fire({ id: 'first', name: 'Launch' });
+        assert.strictEqual(manager.hasSuspensions, false);
+    });
+
+    it('suspends only while configured tasks run', () => {
+        manager.watchDebugAndTasks();
+        const build = createTaskExecution({ name: 'build' });
+        const test = createTaskExecution({ name: 'test' });
+
+        tasks.taskStarted.fire({ execution: build });
+        tasks.taskStarted.fire({ execution: test });
+        assert.deepStrictEqual(manager.getActive().map(suspension => suspension.reason), ['Task build running']);
+
+        tasks.taskEnded.fire({ execution: build });
+        assert.strictEqual(manager.hasSuspensions, false);
+    });
+
+    it('matches every task with "*"', () => {
+        settings.suspendDuringTasks = ['*'];
+        tasks.taskExecutions = [createTaskExecution({ name: 'watch' })];
+        manager.watchDebugAndTasks();
+
+        assert.deepStrictEqual(manager.getActive().map(suspension => suspension.reason), ['Task watch running']);
+    });
+
+    it('drops debug and task suspensions the settings no longer allow', () => {
+        manager.watchDebugAndTasks();
+        debug.sessionStarted.fire({ id: 'first', name: 'Launch' });
+        tasks.taskStarted.fire({ execution: createTaskExecution({ name: 'build' }) });
+        manager.suspend('snooze', 'Snoozed');
+
+        settings = { suspendWhileDebugging: false, suspendDuringTasks: [] };
+        manager.refreshSettings();
+        assert.deepStrictEqual(manager.getActive().map(suspension => suspension.source), ['snooze']);
+    });
+});
+
+describe('formatRemaining', () => {
+    it('formats the time left as minutes and seconds', () => {
+        assert.strictEqual(formatRemaining(Date.now() + 125000), '2:05');
+        assert.strictEqual(formatRemaining(Date.now() - 1000), '0:00');
+    });
+});
@@ -0,0 +1,557 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * The parts of the `vscode` module the unit tests need, backed by the real file
+ * system. `setup.ts` makes `require('vscode')` resolve to this module, so tests run
+ * in plain Node without an editor.
+ */
+
+export class Uri {
+    private constructor(
+        readonly scheme: string,
+        readonly authority: string,
+        readonly path: string,
+        readonly query: string,
+        readonly fragment: string
+    ) {}
+
+    static file(fsPath: string): Uri {
+        return new Uri('file', '', path.resolve(fsPath).replace(/\\/g, '/'), '', '');
+    }
+
+    static parse(value: string): Uri {
+        const match = /^([\w.+-]+):(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/.exec(value);
+        if (!match) {
+            throw new Error(`Invalid URI: ${value}`);
+        }
+        return new Uri(match[1], match[2] ?? '', match[3], match[4] ?? '', match[5] ?? '');
+    }
+
+    static from(components: { scheme: string; authority?: string; path?: string; query?: string; fragment?: string }): Uri {
+        return new Uri(components.scheme, components.authority ?? '', components.path ?? '', components.query ?? '', components.fragment ?? '');
+    }
+
+    static joinPath(base: Uri, ...segments: string[]): Uri {
+        return base.with({ path: path.posix.join(base.path, ...segments) });
+    }
+
+    get fsPath(): string {
+        return path.normalize(this.path);
+    }
+
+    with(change: { scheme?: string; authority?: string; path?: string; query?: string; fragment?: string }): Uri {
+        return new Uri(
+            change.scheme ?? this.scheme,
+            change.authority ?? this.authority,
+            change.path ?? this.path,
+            change.query ?? this.query,
+            change.fragment ?? this.fragment
+        );
+    }
+
+    toString(): string {
+        return `${this.scheme}://${this.authority}${this.path}${this.query ? `?${this.query}` : ''}${this.fragment ? `#${this.fragment}` : ''}`;
+    }
+}
+
+export class Disposable {
+    constructor(private callOnDispose: () => void) {}
+
+    static from(...disposables: { dispose(): unknown }[]): Disposable {
+        return new Disposable(() => disposables.forEach(disposable => disposable.dispose()));
+    }
+
+    dispose() {
+        this.callOnDispose();
+    }
+}
+
+type Listener<T> = (event: T) => unknown;
+
+export class EventEmitter<T> {
+    private listeners: Set<Listener<T>> = new Set();
+
+    readonly event = (listener: Listener<T>): Disposable => {
+        this.listeners.add(listener);
+        return new Disposable(() => this.listeners.delete(listener));
+    };
+
+    fire(event: T) {
+        Array.from(this.listeners).forEach(listener => listener(event));
+    }
+
+    dispose() {
+        this.listeners.clear();
+    }
+}
+
+export class ThemeIcon {
+    constructor(readonly id: string) {}
+}
+
+// Member names as in the real API
+/* eslint-disable @typescript-eslint/naming-convention */
+export enum TreeItemCollapsibleState {
+    None = 0,
+    Collapsed = 1,
+    Expanded = 2
+}
+
+export enum ViewColumn {
+    Active = -1
+}
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * A webview panel that records the messages posted to it; `receive` plays a message
+ * sent from the webview.
+ */
+export class FakeWebviewPanel {
+    visible = true;
+    readonly posted: unknown[] = [];
+    private disposed = new EventEmitter<void>();
+    private viewStateChanged = new EventEmitter<void>();
+    private received = new EventEmitter<unknown>();
+
+    readonly onDidDispose = this.disposed.event;
+    readonly onDidChangeViewState = this.viewStateChanged.event;
+    readonly webview = {
+        html: '',
+        cspSource: 'vscode-webview:',
+        onDidReceiveMessage: this.received.event,
+        postMessage: async (message: unknown) => {
+            this.posted.push(message);
+            return true;
+        }
+    };
+
+    constructor(readonly viewType: string, readonly title: string) {}
+
+    receive(message: unknown) {
+        this.received.fire(message);
+    }
+
+    reveal() {
+        this.visible = true;
+    }
+
+    dispose() {
+        this.disposed.fire();
+    }
+}
+
+export class TreeItem {
+    id?: string;
+    description?: string;
+    tooltip?: string;
+    iconPath?: ThemeIcon;
+    contextValue?: string;
+    command?: { command: string; title: string; arguments?: unknown[] };
+
+    constructor(readonly label: string, readonly collapsibleState?: TreeItemCollapsibleState) {}
+}
+
+export class RelativePattern {
+    constructor(readonly base: string, readonly pattern: string) {}
+}
+
+export class FileSystemError extends Error {
+    constructor(message: string, readonly code: string) {
+        super(message);
+    }
+}
+
+// Node's errors become FileSystemErrors, as with the real file system providers
+async function toFileSystemError<T>(operation: Promise<T>): Promise<T> {
+    try {
+        return await operation;
+    } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === 'ENOENT') {
+            throw new FileSystemError(String(error), 'FileNotFound');
+        }
+        if (code === 'EEXIST') {
+            throw new FileSystemError(String(error), 'FileExists');
+        }
+        throw error;
+    }
+}
+
+// Member names as in the real API
+/* eslint-disable @typescript-eslint/naming-convention */
+export enum FileType {
+    Unknown = 0,
+    File = 1,
+    Directory = 2,
+    SymbolicLink = 64
+}
+/* eslint-enable @typescript-eslint/naming-convention */
+
+export class FakeFileSystemWatcher {
+    readonly changed = new EventEmitter<Uri>();
+    readonly created = new EventEmitter<Uri>();
+    readonly deleted = new EventEmitter<Uri>();
+    readonly onDidChange = this.changed.event;
+    readonly onDidCreate = this.created.event;
+    readonly onDidDelete = this.deleted.event;
+
+    constructor(readonly pattern: string | RelativePattern) {}
+
+    dispose() {
+        this.changed.dispose();
+        this.created.dispose();
+        this.deleted.dispose();
+    }
+}
+
+export interface WorkspaceFolder {
+    uri: Uri;
+    name: string;
+    index: number;
+}
+
+export const workspace = {
+    workspaceFolders: undefined as WorkspaceFolder[] | undefined,
+    isTrusted: true,
+    // Every watcher created, so tests can fire file events
+    watchers: [] as FakeFileSystemWatcher[],
+    // Settings returned by getConfiguration, whatever the section
+    configuration: {} as Record<string, unknown>,
+
+    notebookChanged: new EventEmitter<unknown>(),
+    notebookSaved: new EventEmitter<unknown>(),
+    notebookClosed: new EventEmitter<unknown>(),
+
+    getConfiguration() {
+        return createConfiguration(this.configuration);
+    },
+
+    get onDidChangeNotebookDocument() {
+        return this.notebookChanged.event;
+    },
+    get onDidSaveNotebookDocument() {
+        return this.notebookSaved.event;
+    },
+    get onDidCloseNotebookDocument() {
+        return this.notebookClosed.event;
+    },
+
+    getWorkspaceFolder(uri: Uri): WorkspaceFolder | undefined {
+        return (this.workspaceFolders ?? [])
+            .filter(folder => uri.scheme === folder.uri.scheme && (uri.path === folder.uri.path || uri.path.startsWith(`${folder.uri.path}/`)))
+            .sort((a, b) => b.uri.path.length - a.uri.path.length)[0];
+    },
+
+    asRelativePath(pathOrUri: Uri | string, includeWorkspaceFolder?: boolean): string {
+        const uri = typeof pathOrUri === 'string' ? Uri.file(pathOrUri) : pathOrUri;
+        const folder = this.getWorkspaceFolder(uri);
+        if (!folder) {
+            return uri.path;
+        }
+        const relative = path.posix.relative(folder.uri.path, uri.path);
+        return includeWorkspaceFolder && (this.workspaceFolders ?? []).length > 1 ? `${folder.name}/${relative}` : relative;
+    },
+
+    createFileSystemWatcher(pattern: string | RelativePattern): FakeFileSystemWatcher {
+        const watcher = new FakeFileSystemWatcher(pattern);
+        this.watchers.push(watcher);
+        return watcher;
+    },
+
+    // Opens a file from disk as a plain text document
+    async openTextDocument(uri: Uri): Promise<FakeTextDocument> {
+        return createTextDocument(uri, await toFileSystemError(fs.promises.readFile(uri.fsPath, 'utf8')));
+    },
+
+    registerTextDocumentContentProvider(): Disposable {
+        return new Disposable(() => undefined);
+    },
+
+    fs: {
+        isWritableFileSystem(scheme: string): boolean | undefined {
+            return scheme === 'file' ? true : undefined;
+        },
+        async stat(uri: Uri): Promise<{ type: FileType; ctime: number; mtime: number; size: number }> {
+            const stat = await toFileSystemError(fs.promises.stat(uri.fsPath));
+            return { type: stat.isDirectory() ? FileType.Directory : FileType.File, ctime: stat.ctimeMs, mtime: stat.mtimeMs, size: stat.size };
+        },
+        async readFile(uri: Uri): Promise<Uint8Array> {
+            return toFileSystemError(fs.promises.readFile(uri.fsPath));
+        },
+        // Creates missing parent folders, like VS Code does
+        async writeFile(uri: Uri, content: Uint8Array): Promise<void> {
+            await fs.promises.mkdir(path.dirname(uri.fsPath), { recursive: true });
+            await fs.promises.writeFile(uri.fsPath, content);
+        },
+        async createDirectory(uri: Uri): Promise<void> {
+            await fs.promises.mkdir(uri.fsPath, { recursive: true });
+        },
+        async readDirectory(uri: Uri): Promise<[string, FileType][]> {
+            const entries = await toFileSystemError(fs.promises.readdir(uri.fsPath, { withFileTypes: true }));
+            return entries.map(entry => [entry.name, entry.isDirectory() ? FileType.Directory : FileType.File]);
+        },
+        async delete(uri: Uri, options?: { recursive?: boolean }): Promise<void> {
+            await toFileSystemError(fs.promises.rm(uri.fsPath, { recursive: options?.recursive ?? false, force: false }));
+        }
+    }
+};
+
+/**
+ * Points the fake workspace at the given folders and forgets the watchers of earlier tests.
+ */
+export function resetWorkspace(...folderPaths: string[]) {
+    workspace.workspaceFolders = folderPaths.length > 0
+        ? folderPaths.map((folderPath, index) => ({ uri: Uri.file(folderPath), name: path.basename(folderPath), index }))
+        : undefined;
+    workspace.isTrusted = true;
+    workspace.configuration = {};
+    workspace.watchers.forEach(watcher => watcher.dispose());
+    workspace.watchers = [];
+}
+
+/**
+ * A WorkspaceConfiguration returning the given values, or the caller's default.
+ */
+export function createConfiguration(values: Record<string, unknown>) {
+    return {
+        get<T>(key: string, defaultValue?: T): T | undefined {
+            return key in values ? values[key] as T : defaultValue;
+        },
+        has(key: string): boolean {
+            return key in values;
+        }
+    };
+}
+
+const activeEditorChanged = new EventEmitter<{ document: unknown } | undefined>();
+
+export const window = {
+    activeTextEditor: undefined as { document: unknown } | undefined,
+    visibleTextEditors: [] as { document: unknown }[],
+    onDidChangeActiveTextEditor: activeEditorChanged.event,
+    onDidChangeActiveNotebookEditor: new EventEmitter<unknown>().event,
+
+    // Tests replace this to pick an item; by default the pick is cancelled
+    async showQuickPick<T>(_items: T[], _options?: unknown): Promise<T | undefined> {
+        return undefined;
+    },
+
+    // Every webview panel created, newest last
+    webviewPanels: [] as FakeWebviewPanel[],
+
+    createWebviewPanel(viewType: string, title: string): FakeWebviewPanel {
+        const panel = new FakeWebviewPanel(viewType, title);
+        this.webviewPanels.push(panel);
+        return panel;
+    },
+
+    // Output channels keep their lines for assertions
+    createOutputChannel(name: string) {
+        return {
+            name,
+            lines: [] as string[],
+            appendLine(line: string) {
+                this.lines.push(line);
+            },
+            show: () => undefined,
+            dispose: () => undefined
+        };
+    },
+
+    // Documents passed to showTextDocument, oldest first; the last one becomes active
+    shownDocuments: [] as unknown[],
+
+    async showTextDocument(document: unknown) {
+        this.shownDocuments.push(document);
+        this.setActiveTextEditor({ document });
+        return this.activeTextEditor;
+    },
+
+    // Makes the editor active, like focusing it
+    setActiveTextEditor(editor: { document: unknown } | undefined) {
+        this.activeTextEditor = editor;
+        activeEditorChanged.fire(editor);
+    }
+};
+
+export const languages = {
+    async setTextDocumentLanguage(document: FakeTextDocument, languageId: string): Promise<FakeTextDocument> {
+        document.languageId = languageId;
+        return document;
+    }
+};
+
+export const extensions = {
+    all: [] as { packageJSON: unknown }[]
+};
+
+type CommandHandler = (...args: unknown[]) => unknown;
+
+export const commands = {
+    // Registered handlers; tests can add their own stand-ins for built-in commands
+    handlers: new Map<string, CommandHandler>(),
+
+    registerCommand(id: string, handler: CommandHandler): Disposable {
+        this.handlers.set(id, handler);
+        return new Disposable(() => this.handlers.delete(id));
+    },
+
+    async executeCommand(id: string, ...args: unknown[]): Promise<unknown> {
+        const handler = this.handlers.get(id);
+        if (!handler) {
+            throw new Error(`command '${id}' not found`);
+        }
+        return handler(...args);
+    }
+};
+
+export class Position {
+    constructor(readonly line: number, readonly character: number) {}
+}
+
+export class Range {
+    constructor(readonly start: Position, readonly end: Position) {}
+}
+
+export interface FakeTextDocument {
+    uri: Uri;
+    fileName: string;
+    languageId: string;
+    version: number;
+    isDirty: boolean;
+    isClosed: boolean;
+    isUntitled: boolean;
+    lineCount: number;
+    getText(): string;
+    lineAt(line: number): { text: string; range: Range };
+    offsetAt(position: Position): number;
+    // Replaces the text and bumps the version, like an edit
+    setText(text: string): void;
+    save(): Promise<boolean>;
+}
+
+/**
+ * An in-memory TextDocument; its text can be replaced with `setText`.
+ */
+export function createTextDocument(uri: Uri, text: string, languageId = 'plaintext'): FakeTextDocument {
+    let lines = text.split('\n');
+    let content = text;
+    return {
+        uri,
+        fileName: uri.fsPath,
+        languageId,
+        version: 1,
+        isDirty: false,
+        isClosed: false,
+        isUntitled: uri.scheme === 'untitled',
+        get lineCount() {
+            return lines.length;
+        },
+        getText: () => content,
+        lineAt(line: number) {
+            return { text: lines[line], range: new Range(new Position(line, 0), new Position(line, lines[line].length)) };
+        },
+        offsetAt(position: Position) {
+            return lines.slice(0, position.line).reduce((offset, line) => offset + line.length + 1, 0) + position.character;
+        },
+        setText(newText: string) {
+            content = newText;
+            lines = newText.split('\n');
+            this.version++;
+            this.isDirty = true;
+        },
+        async save() {
+            this.isDirty = false;
+            return true;
+        }
+    };
+}
+
+export class Memento {
+    private values: Map<string, unknown> = new Map();
+
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.values.has(key) ? JSON.parse(JSON.stringify(this.values.get(key))) as T : defaultValue;
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, JSON.parse(JSON.stringify(value)));
+        }
+    }
+
+    keys(): readonly string[] {
+        return Array.from(this.values.keys());
+    }
+}
+
+/**
+ * The ExtensionContext members the tested modules use, with in-memory state.
+ */
+export function createExtensionContext(storagePath: string, globalState = new Memento(), workspaceState = new Memento()) {
+    return {
+        globalState,
+        workspaceState,
+        storageUri: Uri.file(path.join(storagePath, 'workspace')),
+        globalStorageUri: Uri.file(path.join(storagePath, 'global')),
+        subscriptions: [] as { dispose(): unknown }[]
+    };
+}
+
+export interface FakeTaskExecution {
+    task: unknown;
+    terminated: boolean;
+    terminate(): void;
+}
+
+export const tasks = {
+    // What fetchTasks returns
+    available: [] as { name: string; isBackground?: boolean }[],
+    processEnded: new EventEmitter<{ execution: FakeTaskExecution; exitCode: number | undefined }>(),
+    taskStarted: new EventEmitter<{ execution: FakeTaskExecution }>(),
+    taskEnded: new EventEmitter<{ execution: FakeTaskExecution }>(),
+    taskExecutions: [] as FakeTaskExecution[],
+    get onDidStartTask() {
+        return this.taskStarted.event;
+    },
+    get onDidEndTaskProcess() {
+        return this.processEnded.event;
+    },
+    get onDidEndTask() {
+        return this.taskEnded.event;
+    },
+
+    async fetchTasks() {
+        return this.available;
+    },
+
+    // Tests replace this to decide how the task runs; by default it never ends
+    async executeTask(task: unknown): Promise<FakeTaskExecution> {
+        return createTaskExecution(task);
+    }
+};
+
+export const debug = {
+    activeDebugSession: undefined as { id: string; name: string } | undefined,
+    sessionStarted: new EventEmitter<{ id: string; name: string }>(),
+    sessionTerminated: new EventEmitter<{ id: string; name: string }>(),
+    get onDidStartDebugSession() {
+        return this.sessionStarted.event;
+    },
+    get onDidTerminateDebugSession() {
+        return this.sessionTerminated.event;
+    }
+};
+
+export function createTaskExecution(task: unknown): FakeTaskExecution {
+    return {
+        task,
+        terminated: false,
+        terminate() {
+            this.terminated = true;
+        }
+    };
+}